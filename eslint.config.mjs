@@ -27,6 +27,8 @@ export default [
         clearTimeout: 'readonly',
         setInterval: 'readonly',
         clearInterval: 'readonly',
+        window: 'readonly',
+        performance: 'readonly',
       },
     },
     plugins: {
@@ -1,14 +1,30 @@
 import { defineConfig } from '@playwright/test';
+import { EnvironmentConfig } from './src/config/EnvironmentConfig';
+
+// Validate the selected TEST_ENV up front so misconfiguration fails the run
+// before any test navigates anywhere
+const environment = EnvironmentConfig.load();
 
 export default defineConfig({
   testDir: './src/tests',
   testMatch: '**/*Test*.ts',
   outputDir: './reports/test-results',
+  globalSetup: require.resolve('./src/setup/GlobalSetup.ts'),
   fullyParallel: false,
   forbidOnly: !!process.env.CI,
   retries: process.env.CI ? 1 : 0,
   workers: process.env.CI ? 1 : undefined,
   timeout: 0, // No timeout - let tests run as long as needed
+  // Visual baselines, one folder per environment (see BasePage.checkVisual)
+  snapshotPathTemplate: 'src/visual-baselines/{testFileName}/{arg}-{projectName}-{platform}{ext}',
+  updateSnapshots: process.env.UPDATE_BASELINES === 'true' ? 'all' : 'missing',
+  expect: {
+    toHaveScreenshot: {
+      maxDiffPixelRatio: 0.01,
+      animations: 'disabled',
+      caret: 'hide',
+    },
+  },
   reporter: process.env.CI ? [
     ['blob'],
     ['allure-playwright', {
@@ -19,6 +35,7 @@ export default defineConfig({
         framework: 'Playwright',
         language: 'TypeScript',
         node_version: process.version,
+        test_environment: environment.name,
       },
     }],
     ['playwright-smart-reporter', {
@@ -26,6 +43,13 @@ export default defineConfig({
       historyFile: '../../reports/smart-reports/test-history.json',
       maxHistoryRuns: 10,
     }],
+    // Also applies the quarantine list to the run result and records history
+    [require.resolve('./src/utils/PlaywrightTestListener.ts'), {
+      outputDir: 'reports',
+      enableConsoleLogging: true,
+      enableFileLogging: true,
+      enableTimestamps: true
+    }]
   ] : [
     ['list', { printSteps: true }],
     ['html', { open: 'never', outputFolder: 'reports/playwright-report' }],
@@ -38,6 +62,7 @@ export default defineConfig({
         framework: 'Playwright',
         language: 'TypeScript',
         node_version: process.version,
+        test_environment: environment.name,
       },
       attachments: {
         screenshot: {
@@ -0,0 +1,298 @@
+import AxeBuilder from '@axe-core/playwright';
+import { Page } from '@playwright/test';
+import * as fs from 'fs';
+import * as path from 'path';
+import { AllureHelper } from '../utils/AllureHelper';
+import { Logger } from '../utils/Logger';
+
+/**
+ * WCAG conformance level to audit against; AA includes every A rule
+ */
+export type WcagLevel = 'A' | 'AA';
+
+export type ViolationImpact = 'minor' | 'moderate' | 'serious' | 'critical';
+
+/**
+ * An element failing a rule. `target` is a CSS selector, with ` >>> `
+ * separating iframe and shadow DOM boundaries.
+ */
+export interface ViolationNode {
+  target: string;
+  html: string;
+  failureSummary?: string;
+}
+
+export interface AccessibilityViolation {
+  rule: string;
+  impact: ViolationImpact | null;
+  description: string;
+  helpUrl: string;
+  tags: string[];
+  nodes: ViolationNode[];
+}
+
+/**
+ * An accepted violation in a page's baseline. `target` may be '*' to accept
+ * the rule anywhere on the page.
+ */
+export interface KnownViolation {
+  rule: string;
+  target: string;
+  reason?: string;
+}
+
+export interface AccessibilityOptions {
+  /** Only audit elements matching these selectors */
+  include?: string[];
+  /** Skip elements matching these selectors */
+  exclude?: string[];
+  /** Defaults to 'AA' */
+  level?: WcagLevel;
+  /** Run only these rule ids instead of the WCAG level's rule set */
+  rules?: string[];
+  /** Rule ids to skip */
+  disableRules?: string[];
+  /** Known-violations baseline name; BasePage uses the page class name */
+  baseline?: string;
+}
+
+export interface AccessibilityResult {
+  /** Every violation found */
+  violations: AccessibilityViolation[];
+  /** Violations not covered by the baseline; a clean page has none */
+  newViolations: AccessibilityViolation[];
+  /** Baseline entries that no longer occur and can be removed */
+  resolved: KnownViolation[];
+}
+
+// axe-core's Result, taken from @axe-core/playwright rather than imported
+// from axe-core, which is only installed as its dependency
+type Result = Awaited<ReturnType<AxeBuilder['analyze']>>['violations'][number];
+
+const WCAG_TAGS: Record<WcagLevel, string[]> = {
+  A: ['wcag2a', 'wcag21a'],
+  AA: ['wcag2a', 'wcag21a', 'wcag2aa', 'wcag21aa', 'wcag22aa'],
+};
+
+export const DEFAULT_BASELINE_DIR = 'src/accessibility/baselines';
+
+/**
+ * Runs axe-core against a page and compares the result with the page's
+ * known-violations baseline in `src/accessibility/baselines/<name>.json`
+ */
+export class AccessibilityAudit {
+  private static logger = Logger.for('AccessibilityAudit');
+
+  /**
+   * Audit the page, attach a readable report to Allure and return the
+   * violations. With UPDATE_BASELINES=true every current violation is
+   * added to the baseline (see mergeBaseline).
+   */
+  static async run(
+    page: Page,
+    options: AccessibilityOptions = {},
+    baselineDir: string = DEFAULT_BASELINE_DIR
+  ): Promise<AccessibilityResult> {
+    const { include = [], exclude = [], level = 'AA', baseline } = options;
+
+    let builder = new AxeBuilder({ page });
+    for (const selector of include) {
+      builder = builder.include(selector);
+    }
+    for (const selector of exclude) {
+      builder = builder.exclude(selector);
+    }
+    builder = options.rules?.length
+      ? builder.withRules(options.rules)
+      : builder.withTags(WCAG_TAGS[level]);
+    if (options.disableRules?.length) {
+      builder = builder.disableRules(options.disableRules);
+    }
+
+    const results = await builder.analyze();
+    const violations = results.violations.map(violation =>
+      AccessibilityAudit.toViolation(violation)
+    );
+
+    const baselinePath = baseline
+      ? path.join(baselineDir, `${baseline}.json`)
+      : undefined;
+    if (baselinePath && process.env.UPDATE_BASELINES === 'true') {
+      // Entries for rules that did not run, or anywhere when the audit was
+      // scoped, were not checked and so are kept
+      const scoped = include.length > 0 || exclude.length > 0;
+      const ranRules = new Set(
+        [
+          ...results.violations,
+          ...results.passes,
+          ...results.incomplete,
+          ...results.inapplicable,
+        ].map(rule => rule.id)
+      );
+      AccessibilityAudit.writeBaseline(
+        baselinePath,
+        violations,
+        entry => !scoped && ranRules.has(entry.rule)
+      );
+    }
+    const known = baselinePath
+      ? AccessibilityAudit.readBaseline(baselinePath)
+      : [];
+    const result = AccessibilityAudit.compare(violations, known);
+
+    AccessibilityAudit.logger.info(
+      `Accessibility audit of ${page.url()}: ${violations.length} violation(s), ${result.newViolations.length} new`
+    );
+    await AllureHelper.attachText(
+      `Accessibility${baseline ? `: ${baseline}` : ''}`,
+      AccessibilityAudit.formatReport(page.url(), level, result)
+    );
+    return result;
+  }
+
+  /**
+   * Split violations into those covered by the baseline and new ones
+   */
+  static compare(
+    violations: AccessibilityViolation[],
+    known: KnownViolation[]
+  ): AccessibilityResult {
+    const used = new Set<KnownViolation>();
+    const isKnown = (rule: string, target: string) => {
+      const entry = known.find(
+        k => k.rule === rule && (k.target === '*' || k.target === target)
+      );
+      if (entry) {
+        used.add(entry);
+      }
+      return entry !== undefined;
+    };
+
+    const newViolations = violations
+      .map(violation => ({
+        ...violation,
+        nodes: violation.nodes.filter(
+          node => !isKnown(violation.rule, node.target)
+        ),
+      }))
+      .filter(violation => violation.nodes.length > 0);
+
+    return {
+      violations,
+      newViolations,
+      resolved: known.filter(entry => !used.has(entry)),
+    };
+  }
+
+  /**
+   * Add the violations to a baseline. Entries that still match keep their
+   * reason; resolved entries are removed only when `wasAudited` says the
+   * audit checked them.
+   */
+  static mergeBaseline(
+    known: KnownViolation[],
+    violations: AccessibilityViolation[],
+    wasAudited: (entry: KnownViolation) => boolean
+  ): KnownViolation[] {
+    const { resolved } = AccessibilityAudit.compare(violations, known);
+    const kept = known.filter(
+      entry => !resolved.includes(entry) || !wasAudited(entry)
+    );
+    const added = AccessibilityAudit.compare(
+      violations,
+      kept
+    ).newViolations.flatMap(violation =>
+      violation.nodes.map(node => ({
+        rule: violation.rule,
+        target: node.target,
+      }))
+    );
+    return [...kept, ...added];
+  }
+
+  /**
+   * Plain text report grouped by rule, new violations first
+   */
+  static formatReport(
+    url: string,
+    level: WcagLevel,
+    result: AccessibilityResult
+  ): string {
+    const lines = [
+      `Accessibility audit (WCAG ${level}) of ${url}`,
+      `${result.violations.length} violation(s), ${result.newViolations.length} not in baseline`,
+      '',
+    ];
+    const section = (title: string, violations: AccessibilityViolation[]) => {
+      if (violations.length === 0) {
+        return;
+      }
+      lines.push(title);
+      for (const violation of violations) {
+        lines.push(
+          `  [${violation.impact ?? 'unknown'}] ${violation.rule}: ${violation.description}`,
+          `    ${violation.helpUrl}`
+        );
+        for (const node of violation.nodes) {
+          lines.push(`    - ${node.target}`);
+        }
+      }
+      lines.push('');
+    };
+
+    section('NEW VIOLATIONS', result.newViolations);
+    section('ALL VIOLATIONS', result.violations);
+    if (result.resolved.length > 0) {
+      lines.push('RESOLVED BASELINE ENTRIES (can be removed)');
+      for (const entry of result.resolved) {
+        lines.push(`  - ${entry.rule}: ${entry.target}`);
+      }
+    }
+    return lines.join('\n');
+  }
+
+  private static toViolation(result: Result): AccessibilityViolation {
+    return {
+      rule: result.id,
+      impact: result.impact ?? null,
+      description: result.help,
+      helpUrl: result.helpUrl,
+      tags: result.tags,
+      nodes: result.nodes.map(node => ({
+        target: node.target
+          .map(selector =>
+            Array.isArray(selector) ? selector.join(' >>> ') : selector
+          )
+          .join(' >>> '),
+        html: node.html,
+        failureSummary: node.failureSummary,
+      })),
+    };
+  }
+
+  private static readBaseline(baselinePath: string): KnownViolation[] {
+    if (!fs.existsSync(baselinePath)) {
+      return [];
+    }
+    return JSON.parse(
+      fs.readFileSync(baselinePath, 'utf-8')
+    ) as KnownViolation[];
+  }
+
+  private static writeBaseline(
+    baselinePath: string,
+    violations: AccessibilityViolation[],
+    wasAudited: (entry: KnownViolation) => boolean
+  ): void {
+    const known = AccessibilityAudit.mergeBaseline(
+      AccessibilityAudit.readBaseline(baselinePath),
+      violations,
+      wasAudited
+    );
+    fs.mkdirSync(path.dirname(baselinePath), { recursive: true });
+    fs.writeFileSync(baselinePath, JSON.stringify(known, null, 2));
+    AccessibilityAudit.logger.info(
+      `Wrote ${known.length} known violation(s) to ${baselinePath}`
+    );
+  }
+}
@@ -0,0 +1,159 @@
+import { APIRequestContext } from '@playwright/test';
+import { EnvironmentConfig } from '../config/EnvironmentConfig';
+import { AppName } from '../config/EnvironmentProfiles';
+import { Route } from '../pages/Route';
+import { AllureHelper } from '../utils/AllureHelper';
+import { Logger } from '../utils/Logger';
+import { JsonSchema, SchemaValidator } from './SchemaValidator';
+
+export interface ApiRequestOptions<T> {
+  params?: Record<string, string | number | boolean>;
+  headers?: Record<string, string>;
+  data?: unknown;
+  /** Validate the response body against this schema */
+  schema?: JsonSchema<T>;
+}
+
+export interface ApiResponse<T> {
+  status: number;
+  headers: Record<string, string>;
+  body: T;
+  durationMs: number;
+}
+
+/**
+ * Base API client containing common request handling for all API clients,
+ * the API analogue of BasePage. Subclasses expose typed endpoint methods.
+ */
+export class ApiClient {
+  readonly baseUrl: string;
+  protected readonly request: APIRequestContext;
+  protected readonly environment: EnvironmentConfig;
+  protected logger: Logger;
+
+  constructor(
+    request: APIRequestContext,
+    environment: EnvironmentConfig,
+    app: AppName
+  ) {
+    this.request = request;
+    this.environment = environment;
+    this.baseUrl = environment.baseUrl(app);
+    this.logger = Logger.for(this.constructor.name);
+  }
+
+  /**
+   * Send a GET request
+   */
+  protected async get<T>(
+    path: string,
+    options: ApiRequestOptions<T> = {}
+  ): Promise<ApiResponse<T>> {
+    return await this.send('GET', path, options);
+  }
+
+  /**
+   * Send a POST request
+   */
+  protected async post<T>(
+    path: string,
+    options: ApiRequestOptions<T> = {}
+  ): Promise<ApiResponse<T>> {
+    return await this.send('POST', path, options);
+  }
+
+  /**
+   * Send a PUT request
+   */
+  protected async put<T>(
+    path: string,
+    options: ApiRequestOptions<T> = {}
+  ): Promise<ApiResponse<T>> {
+    return await this.send('PUT', path, options);
+  }
+
+  /**
+   * Send a PATCH request
+   */
+  protected async patch<T>(
+    path: string,
+    options: ApiRequestOptions<T> = {}
+  ): Promise<ApiResponse<T>> {
+    return await this.send('PATCH', path, options);
+  }
+
+  /**
+   * Send a DELETE request
+   */
+  protected async delete<T>(
+    path: string,
+    options: ApiRequestOptions<T> = {}
+  ): Promise<ApiResponse<T>> {
+    return await this.send('DELETE', path, options);
+  }
+
+  /**
+   * Send a request relative to the base URL, log it, attach the
+   * request/response pair to Allure and validate the body if a schema is given
+   */
+  protected async send<T>(
+    method: string,
+    path: string,
+    options: ApiRequestOptions<T> = {}
+  ): Promise<ApiResponse<T>> {
+    const { params, headers, data, schema } = options;
+    const url = Route.resolve(this.baseUrl, path);
+
+    this.logger.info(`➡️ ${method} ${url}`);
+    const startTime = Date.now();
+    const response = await this.request.fetch(url, {
+      method,
+      params,
+      headers,
+      data,
+    });
+    const durationMs = Date.now() - startTime;
+    const body = ApiClient.parseBody(await response.text());
+
+    this.logger.info(
+      `⬅️ ${response.status()} ${method} ${url} (${durationMs}ms)`
+    );
+    this.logger.debug(`Response body: ${JSON.stringify(body)}`);
+
+    await AllureHelper.attachJson(`${method} ${path}`, {
+      request: { method, url, params, headers, data },
+      response: {
+        status: response.status(),
+        headers: response.headers(),
+        body,
+        durationMs,
+      },
+    });
+
+    if (schema) {
+      SchemaValidator.validate(
+        schema,
+        body,
+        `Response body of ${method} ${path}`
+      );
+    }
+
+    return {
+      status: response.status(),
+      headers: response.headers(),
+      body: body as T,
+      durationMs,
+    };
+  }
+
+  private static parseBody(text: string): unknown {
+    if (!text) {
+      return null;
+    }
+    try {
+      return JSON.parse(text);
+    } catch (_error) {
+      return text;
+    }
+  }
+}
@@ -0,0 +1,101 @@
+import Ajv, { ErrorObject, JSONSchemaType, ValidateFunction } from 'ajv';
+
+/**
+ * JSON schema describing a response body of type T
+ */
+export type JsonSchema<T> = JSONSchemaType<T>;
+
+/**
+ * Thrown when a response body does not match its schema. The message lists
+ * every mismatch with its JSON path, expected and actual value.
+ */
+export class SchemaValidationError extends Error {
+  readonly mismatches: string[];
+
+  constructor(subject: string, mismatches: string[]) {
+    super(
+      `${subject} does not match schema:\n` +
+        mismatches.map(mismatch => `  - ${mismatch}`).join('\n')
+    );
+    this.name = 'SchemaValidationError';
+    this.mismatches = mismatches;
+  }
+}
+
+/**
+ * Validates data against JSON schemas, caching compiled validators
+ */
+export class SchemaValidator {
+  private static ajv = new Ajv({ allErrors: true });
+  private static compiled: WeakMap<object, ValidateFunction> = new WeakMap();
+
+  /**
+   * Assert that data matches a schema
+   * @param subject - What is being validated, used in the error message
+   */
+  static validate<T>(schema: JsonSchema<T>, data: unknown, subject: string): T {
+    let validate = SchemaValidator.compiled.get(schema);
+    if (!validate) {
+      validate = SchemaValidator.ajv.compile(schema);
+      SchemaValidator.compiled.set(schema, validate);
+    }
+
+    if (!validate(data)) {
+      throw new SchemaValidationError(
+        subject,
+        (validate.errors ?? []).map(error =>
+          SchemaValidator.describe(error, data)
+        )
+      );
+    }
+    return data as T;
+  }
+
+  /**
+   * Describe a single validation error as "path: expected ..., got ..."
+   */
+  private static describe(error: ErrorObject, data: unknown): string {
+    const path = `$${error.instancePath.replace(/\//g, '.')}`;
+    const actual = SchemaValidator.valueAt(data, error.instancePath);
+
+    switch (error.keyword) {
+      case 'required':
+        return `${path}: missing required property "${error.params.missingProperty}"`;
+      case 'additionalProperties':
+        return `${path}: unexpected property "${error.params.additionalProperty}"`;
+      case 'type':
+        return `${path}: expected ${error.params.type}, got ${SchemaValidator.typeOf(actual)} (${SchemaValidator.preview(actual)})`;
+      case 'enum':
+        return `${path}: expected one of ${JSON.stringify(error.params.allowedValues)}, got ${SchemaValidator.preview(actual)}`;
+      case 'const':
+        return `${path}: expected ${JSON.stringify(error.params.allowedValue)}, got ${SchemaValidator.preview(actual)}`;
+      default:
+        return `${path}: ${error.message} (got ${SchemaValidator.preview(actual)})`;
+    }
+  }
+
+  private static valueAt(data: unknown, pointer: string): unknown {
+    return pointer
+      .split('/')
+      .slice(1)
+      .map(segment => segment.replace(/~1/g, '/').replace(/~0/g, '~'))
+      .reduce<unknown>(
+        (value, key) =>
+          value !== null && typeof value === 'object'
+            ? (value as Record<string, unknown>)[key]
+            : undefined,
+        data
+      );
+  }
+
+  private static typeOf(value: unknown): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    return typeof value;
+  }
+
+  private static preview(value: unknown): string {
+    const text = JSON.stringify(value) ?? String(value);
+    return text.length > 60 ? `${text.substring(0, 57)}...` : text;
+  }
+}
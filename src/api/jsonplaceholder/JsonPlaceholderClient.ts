@@ -0,0 +1,34 @@
+import { APIRequestContext } from '@playwright/test';
+import { EnvironmentConfig } from '../../config/EnvironmentConfig';
+import { ApiClient, ApiResponse } from '../ApiClient';
+import { NewPost, Post, postSchema } from './JsonPlaceholderSchemas';
+
+/**
+ * JSONPlaceholder API Client
+ */
+export class JsonPlaceholderClient extends ApiClient {
+  constructor(request: APIRequestContext, environment: EnvironmentConfig) {
+    super(request, environment, 'api');
+  }
+
+  /**
+   * Get a single post by id
+   */
+  async getPost(id: number): Promise<ApiResponse<Post>> {
+    return await this.get(`posts/${id}`, { schema: postSchema });
+  }
+
+  /**
+   * Create a post
+   */
+  async createPost(post: NewPost): Promise<ApiResponse<Post>> {
+    return await this.post('posts', { data: post, schema: postSchema });
+  }
+
+  /**
+   * Delete a post by id
+   */
+  async deletePost(id: number): Promise<ApiResponse<unknown>> {
+    return await this.delete(`posts/${id}`);
+  }
+}
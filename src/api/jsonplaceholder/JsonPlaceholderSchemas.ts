@@ -0,0 +1,28 @@
+import { JsonSchema } from '../SchemaValidator';
+
+/**
+ * A post as returned by /posts
+ */
+export interface Post {
+  userId: number;
+  id: number;
+  title: string;
+  body: string;
+}
+
+/**
+ * A post as sent to POST /posts
+ */
+export type NewPost = Omit<Post, 'id'>;
+
+export const postSchema: JsonSchema<Post> = {
+  type: 'object',
+  properties: {
+    userId: { type: 'integer' },
+    id: { type: 'integer' },
+    title: { type: 'string' },
+    body: { type: 'string' },
+  },
+  required: ['userId', 'id', 'title', 'body'],
+  additionalProperties: false,
+};
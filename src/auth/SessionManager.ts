@@ -0,0 +1,137 @@
+import { Browser, BrowserContext } from '@playwright/test';
+import * as fs from 'fs';
+import * as path from 'path';
+import { EnvironmentConfig } from '../config/EnvironmentConfig';
+import { USER_ROLES, UserRole } from '../config/EnvironmentProfiles';
+import { LoginPage } from '../pages/auth/LoginPage';
+import { Logger } from '../utils/Logger';
+
+export type StorageState = Awaited<ReturnType<BrowserContext['storageState']>>;
+
+export interface SessionManagerOptions {
+  authDir?: string;
+  maxAgeMinutes?: number;
+}
+
+/**
+ * Caches logged-in storageState files per role and environment so that each
+ * role logs in once and every worker reuses the same session
+ */
+export class SessionManager {
+  private readonly environment: EnvironmentConfig;
+  private readonly authDir: string;
+  private readonly maxAgeMs: number;
+  private logger: Logger;
+
+  constructor(
+    environment: EnvironmentConfig,
+    options: SessionManagerOptions = {}
+  ) {
+    const { authDir = 'playwright/.auth', maxAgeMinutes = 60 } = options;
+
+    this.environment = environment;
+    this.authDir = authDir;
+    this.maxAgeMs = maxAgeMinutes * 60 * 1000;
+    this.logger = Logger.for('SessionManager');
+  }
+
+  /**
+   * Path of the cached storageState file for a role
+   */
+  storageStatePath(role: UserRole): string {
+    return path.join(this.authDir, this.environment.name, `${role}.json`);
+  }
+
+  /**
+   * Check whether a cached session exists, is recent enough and has no
+   * expired cookies
+   */
+  isSessionValid(role: UserRole): boolean {
+    const statePath = this.storageStatePath(role);
+    if (!fs.existsSync(statePath)) {
+      return false;
+    }
+
+    if (Date.now() - fs.statSync(statePath).mtimeMs > this.maxAgeMs) {
+      this.logger.debug(`Cached session for ${role} is older than max age`);
+      return false;
+    }
+
+    try {
+      const state = this.loadStorageState(role);
+      const now = Date.now() / 1000;
+      // Session cookies report expires as -1 and live as long as the file
+      const expired = state.cookies.some(
+        cookie => cookie.expires > 0 && cookie.expires <= now
+      );
+      return !expired && (state.cookies.length > 0 || state.origins.length > 0);
+    } catch (error) {
+      this.logger.debug(`Cached session for ${role} is unreadable`, { error });
+      return false;
+    }
+  }
+
+  /**
+   * Return the storageState path for a role, logging in first when the
+   * cached session is missing or expired
+   */
+  async ensureSession(browser: Browser, role: UserRole): Promise<string> {
+    if (this.isSessionValid(role)) {
+      this.logger.debug(`Reusing cached session for ${role}`);
+      return this.storageStatePath(role);
+    }
+    return await this.authenticate(browser, role);
+  }
+
+  /**
+   * Log a role in with a fresh context and persist its storageState
+   */
+  async authenticate(browser: Browser, role: UserRole): Promise<string> {
+    const { app } = USER_ROLES[role];
+    const credentials = this.environment.credentialsFor(role);
+    const statePath = this.storageStatePath(role);
+
+    this.logger.info(`Authenticating ${role} against ${app}`);
+    const context = await browser.newContext();
+    try {
+      const loginPage = new LoginPage(
+        await context.newPage(),
+        this.environment,
+        app
+      );
+      await loginPage.navigate();
+      await loginPage.login(credentials);
+
+      const state = await context.storageState();
+      fs.mkdirSync(path.dirname(statePath), { recursive: true });
+      // Write then rename so other workers never read a partial file
+      const tempPath = `${statePath}.${process.pid}.tmp`;
+      fs.writeFileSync(tempPath, JSON.stringify(state, null, 2));
+      fs.renameSync(tempPath, statePath);
+      this.logger.info(`Session for ${role} saved to ${statePath}`);
+    } finally {
+      await context.close();
+    }
+    return statePath;
+  }
+
+  /**
+   * Discard the cached session for a role
+   */
+  invalidate(role: UserRole): void {
+    const statePath = this.storageStatePath(role);
+    if (fs.existsSync(statePath)) {
+      fs.unlinkSync(statePath);
+      this.logger.debug(`Invalidated cached session for ${role}`);
+    }
+  }
+
+  /**
+   * Read the cached storageState for a role
+   */
+  loadStorageState(role: UserRole): StorageState {
+    return JSON.parse(
+      fs.readFileSync(this.storageStatePath(role), 'utf-8')
+    ) as StorageState;
+  }
+}
@@ -0,0 +1,107 @@
+import { Locator, Page } from '@playwright/test';
+import { HealingLocator, LocatorStrategy } from '../locators/HealingLocator';
+import { Logger } from '../utils/Logger';
+
+/**
+ * Base class for reusable widgets (headers, search boxes, tables, modals).
+ * Every lookup is scoped to the component's root locator, so the same
+ * component can be composed into any page that contains it.
+ */
+export class BaseComponent {
+  readonly root: Locator;
+  readonly page: Page;
+  protected logger: Logger;
+
+  constructor(root: Locator) {
+    this.root = root;
+    this.page = root.page();
+    this.logger = Logger.for(this.constructor.name);
+  }
+
+  /**
+   * Get element by CSS or Playwright selector within the component
+   */
+  locator(selector: string): Locator {
+    return this.root.locator(selector);
+  }
+
+  /**
+   * Get element by data-testid within the component
+   */
+  getByTestId(testId: string): Locator {
+    return this.root.getByTestId(testId);
+  }
+
+  /**
+   * Get element by text within the component
+   */
+  getByText(text: string | RegExp): Locator {
+    return this.root.getByText(text);
+  }
+
+  /**
+   * Get element by label within the component
+   */
+  getByLabel(text: string | RegExp): Locator {
+    return this.root.getByLabel(text);
+  }
+
+  /**
+   * Get element by role within the component
+   */
+  getByRole(
+    role: Parameters<Locator['getByRole']>[0],
+    options?: { name?: string | RegExp; exact?: boolean }
+  ): Locator {
+    return this.root.getByRole(role, options);
+  }
+
+  /**
+   * Locator within the component trying each strategy in order, reporting
+   * when the first one no longer matches
+   */
+  protected healingLocator(
+    name: string,
+    ...strategies: LocatorStrategy[]
+  ): HealingLocator {
+    return new HealingLocator(
+      this.root,
+      name,
+      strategies,
+      this.constructor.name
+    );
+  }
+
+  /**
+   * Check if the component is visible
+   */
+  async isVisible(): Promise<boolean> {
+    try {
+      return await this.root.isVisible();
+    } catch (error) {
+      this.logger.debug('Component visibility check failed', { error });
+      return false;
+    }
+  }
+
+  /**
+   * Wait for the component to be visible
+   */
+  async waitForVisible(timeout: number = 30000): Promise<void> {
+    await this.root.waitFor({ state: 'visible', timeout });
+  }
+
+  /**
+   * Wait for the component to be hidden or removed
+   */
+  async waitForHidden(timeout: number = 30000): Promise<void> {
+    await this.root.waitFor({ state: 'hidden', timeout });
+  }
+
+  /**
+   * Get the component's visible text
+   */
+  async getText(): Promise<string> {
+    return (await this.root.innerText()).trim();
+  }
+}
@@ -0,0 +1,245 @@
+import { Locator } from '@playwright/test';
+import { BaseComponent } from './BaseComponent';
+
+export type SortDirection = 'ascending' | 'descending';
+
+/**
+ * Selectors for tables that do not use plain thead/tbody markup, and the
+ * pagination controls, which usually sit outside the table itself
+ */
+export interface DataTableOptions {
+  headerCells?: string;
+  rows?: string;
+  cells?: string;
+  nextPage?: Locator;
+  previousPage?: Locator;
+  /** Most pages getRow searches before giving up (default 50) */
+  maxPages?: number;
+}
+
+/**
+ * A data table addressed by column name rather than position
+ * Usage: const row = await table.getRow('Quote number', 'Q-1001');
+ */
+export class DataTable extends BaseComponent {
+  private static readonly DEFAULT_MAX_PAGES = 50;
+
+  private readonly options: Required<
+    Pick<DataTableOptions, 'headerCells' | 'rows' | 'cells'>
+  > &
+    DataTableOptions;
+
+  constructor(root: Locator, options: DataTableOptions = {}) {
+    super(root);
+    this.options = {
+      headerCells: 'thead th, thead [role="columnheader"]',
+      rows: 'tbody tr',
+      cells: 'td, th, [role="cell"], [role="gridcell"]',
+      ...options,
+    };
+  }
+
+  /**
+   * Header cells, in column order
+   */
+  headers(): Locator {
+    return this.root.locator(this.options.headerCells);
+  }
+
+  /**
+   * Body rows on the current page
+   */
+  rows(): Locator {
+    return this.root.locator(this.options.rows);
+  }
+
+  /**
+   * Column names as displayed
+   */
+  async columnNames(): Promise<string[]> {
+    const names = await this.headers().allInnerTexts();
+    return names.map(name => name.trim());
+  }
+
+  /**
+   * Position of a column, matched case-insensitively
+   */
+  async columnIndex(column: string): Promise<number> {
+    const names = await this.columnNames();
+    const index = names.findIndex(
+      name => name.toLowerCase() === column.toLowerCase()
+    );
+    if (index === -1) {
+      throw new Error(
+        `Column "${column}" not found; columns are: ${names.join(', ')}`
+      );
+    }
+    return index;
+  }
+
+  async rowCount(): Promise<number> {
+    return this.rows().count();
+  }
+
+  /**
+   * Cell of a row in the named column
+   */
+  async cell(row: Locator, column: string): Promise<Locator> {
+    return row.locator(this.options.cells).nth(await this.columnIndex(column));
+  }
+
+  async cellText(row: Locator, column: string): Promise<string> {
+    return (await (await this.cell(row, column)).innerText()).trim();
+  }
+
+  /**
+   * Values of a column on the current page
+   */
+  async columnValues(column: string): Promise<string[]> {
+    const index = await this.columnIndex(column);
+    const values: string[] = [];
+    for (const row of await this.rows().all()) {
+      values.push(
+        (await row.locator(this.options.cells).nth(index).innerText()).trim()
+      );
+    }
+    return values;
+  }
+
+  /**
+   * Rows on the current page as objects keyed by column name
+   */
+  async readRows(): Promise<Record<string, string>[]> {
+    const names = await this.columnNames();
+    const result: Record<string, string>[] = [];
+    for (const row of await this.rows().all()) {
+      const cells = await row.locator(this.options.cells).allInnerTexts();
+      result.push(
+        Object.fromEntries(
+          names.map((name, index) => [name, (cells[index] ?? '').trim()])
+        )
+      );
+    }
+    return result;
+  }
+
+  /**
+   * First row on the current page whose cell in `column` matches the value
+   */
+  async findRow(
+    column: string,
+    value: string | RegExp
+  ): Promise<Locator | undefined> {
+    const index = await this.columnIndex(column);
+    for (const row of await this.rows().all()) {
+      const text = (
+        await row.locator(this.options.cells).nth(index).innerText()
+      ).trim();
+      if (typeof value === 'string' ? text === value : value.test(text)) {
+        return row;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Like findRow, but pages forward through the table until a match is
+   * found, and throws when there is none. Stops after `maxPages` pages, or
+   * when paging shows a page already searched (the next control stayed
+   * enabled on the last page, or the table wrapped around).
+   */
+  async getRow(column: string, value: string | RegExp): Promise<Locator> {
+    const { maxPages = DataTable.DEFAULT_MAX_PAGES } = this.options;
+    // Pages are told apart by their first row
+    const searched = new Set<string>();
+    while (true) {
+      const firstRow = await this.firstRowText();
+      if (searched.has(firstRow)) {
+        break;
+      }
+      searched.add(firstRow);
+
+      const row = await this.findRow(column, value);
+      if (row) {
+        this.logger.debug(`Found row where ${column} is ${value}`);
+        return row;
+      }
+      if (searched.size >= maxPages || !(await this.nextPage())) {
+        break;
+      }
+    }
+    throw new Error(
+      `No row where "${column}" is ${value} in ${searched.size} page(s)`
+    );
+  }
+
+  /**
+   * Click a column header until the table reports the requested order
+   * through aria-sort
+   */
+  async sortBy(
+    column: string,
+    direction: SortDirection = 'ascending'
+  ): Promise<void> {
+    this.logger.info(`Sorting by ${column} (${direction})`);
+    const header = this.headers().nth(await this.columnIndex(column));
+    // Unsorted -> ascending -> descending covers the usual header cycle
+    for (let clicks = 0; clicks < 3; clicks++) {
+      if ((await header.getAttribute('aria-sort')) === direction) {
+        return;
+      }
+      await header.click();
+    }
+    throw new Error(`Column "${column}" did not sort ${direction}`);
+  }
+
+  /**
+   * Go to the next page
+   * @returns false when there is no enabled next page control
+   */
+  async nextPage(): Promise<boolean> {
+    return this.turnPage(this.options.nextPage, 'next');
+  }
+
+  /**
+   * Go to the previous page
+   * @returns false when there is no enabled previous page control
+   */
+  async previousPage(): Promise<boolean> {
+    return this.turnPage(this.options.previousPage, 'previous');
+  }
+
+  private async turnPage(
+    control: Locator | undefined,
+    label: string
+  ): Promise<boolean> {
+    if (
+      !control ||
+      !(await control.isVisible()) ||
+      !(await control.isEnabled()) ||
+      (await control.getAttribute('aria-disabled')) === 'true'
+    ) {
+      return false;
+    }
+
+    const firstRow = await this.firstRowText();
+    this.logger.debug(`Going to the ${label} page`);
+    await control.click();
+    // Wait until the rows have been replaced
+    if (firstRow) {
+      await this.rows()
+        .first()
+        .filter({ hasNotText: firstRow })
+        .waitFor({ timeout: 10000 })
+        .catch(() => undefined);
+    }
+    return true;
+  }
+
+  private async firstRowText(): Promise<string> {
+    return this.rows()
+      .first()
+      .innerText({ timeout: 1000 })
+      .catch(() => '');
+  }
+}
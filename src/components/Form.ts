@@ -0,0 +1,78 @@
+import { Locator } from '@playwright/test';
+import { BaseComponent } from './BaseComponent';
+
+/**
+ * A form whose fields are addressed by their label
+ * Usage: await form.fillField('Customer name', 'Acme Pty Ltd');
+ */
+export class Form extends BaseComponent {
+  readonly submitButton: Locator;
+
+  /**
+   * @param submitButton - defaults to the form's submit-type button
+   */
+  constructor(root: Locator, submitButton?: Locator) {
+    super(root);
+    this.submitButton =
+      submitButton ??
+      root.locator('button[type="submit"], input[type="submit"]').first();
+  }
+
+  /**
+   * Field by its label text
+   */
+  field(label: string | RegExp): Locator {
+    return this.root.getByLabel(label, { exact: typeof label === 'string' });
+  }
+
+  /**
+   * Fill a text field
+   */
+  async fillField(label: string | RegExp, value: string): Promise<void> {
+    this.logger.debug(`Filling "${label}"`);
+    await this.field(label).fill(value);
+  }
+
+  /**
+   * Choose an option in a select field by its label or value
+   */
+  async selectField(label: string | RegExp, option: string): Promise<void> {
+    this.logger.debug(`Selecting "${option}" in "${label}"`);
+    await this.field(label).selectOption(option);
+  }
+
+  /**
+   * Check or uncheck a checkbox
+   */
+  async setChecked(label: string | RegExp, checked: boolean): Promise<void> {
+    this.logger.debug(`${checked ? 'Checking' : 'Unchecking'} "${label}"`);
+    await this.field(label).setChecked(checked);
+  }
+
+  /**
+   * Current value of a text or select field
+   */
+  async fieldValue(label: string | RegExp): Promise<string> {
+    return this.field(label).inputValue();
+  }
+
+  /**
+   * Submit the form
+   */
+  async submit(): Promise<void> {
+    this.logger.info('Submitting form');
+    await this.submitButton.click();
+  }
+
+  /**
+   * Validation messages currently shown in the form
+   */
+  async validationErrors(): Promise<string[]> {
+    const messages = await this.root
+      .locator(
+        '[role="alert"], .error, .invalid-feedback, [aria-live="assertive"]'
+      )
+      .allInnerTexts();
+    return messages.map(message => message.trim()).filter(Boolean);
+  }
+}
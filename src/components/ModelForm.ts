@@ -0,0 +1,311 @@
+import { Locator } from '@playwright/test';
+import { Form } from './Form';
+
+export type FieldType =
+  'text' | 'select' | 'checkbox' | 'radio' | 'date' | 'file';
+
+/**
+ * Values a form model can hold: text and numbers for inputs, option labels
+ * (or values) for selects and radio groups, booleans for checkboxes, dates
+ * for date pickers and file paths for uploads
+ */
+export type FieldValue = string | number | boolean | Date | string[];
+
+/**
+ * Where a model property lives in the form and how it is set. Give one of
+ * `label`, `testId` or `locator`; `type` is detected from the element when
+ * left out. A radio group is found by the name of its fieldset (legend) or
+ * radiogroup; a locator or test id may point at the group or one of its
+ * radio buttons.
+ */
+export interface FieldDefinition {
+  label?: string | RegExp;
+  testId?: string;
+  locator?: Locator;
+  type?: FieldType;
+  /** Match select options by label (default) or value */
+  selectBy?: 'label' | 'value';
+  /** Text typed into non-native date pickers; native inputs get ISO dates */
+  formatDate?: (date: Date) => string;
+  /** Mask the value in logs */
+  sensitive?: boolean;
+}
+
+export type FormFields<T> = { [K in keyof T]-?: FieldDefinition };
+
+/**
+ * A form read back from the page: checkboxes as booleans, uploads as file
+ * names and everything else as the displayed string
+ */
+export type FormSnapshot<T> = {
+  [K in keyof T]-?: NonNullable<T[K]> extends boolean
+    ? boolean
+    : NonNullable<T[K]> extends string[]
+      ? string[]
+      : string;
+};
+
+/**
+ * A form mapped to a typed data model
+ * Usage:
+ *   const form = new ModelForm<Quote>(page.locator('form'), {
+ *     customer: { label: 'Customer' },
+ *     product: { label: 'Product', type: 'select' },
+ *     startDate: { testId: 'start-date' },
+ *   });
+ *   await form.fill({ customer: 'Acme', product: 'Lease', startDate: new Date() });
+ *   expect(await form.read()).toMatchObject({ customer: 'Acme' });
+ */
+export class ModelForm<T extends { [K in keyof T]?: FieldValue }> extends Form {
+  readonly fields: FormFields<T>;
+
+  constructor(root: Locator, fields: FormFields<T>, submitButton?: Locator) {
+    super(root, submitButton);
+    this.fields = fields;
+  }
+
+  /**
+   * Set every property present in `data`, in the order of the field
+   * definitions; undefined properties are left untouched
+   */
+  async fill(data: Partial<T>): Promise<void> {
+    for (const name of Object.keys(this.fields) as (keyof T & string)[]) {
+      const value = data[name];
+      if (value !== undefined) {
+        await this.setField(name, value as FieldValue);
+      }
+    }
+  }
+
+  /**
+   * Fill the form and submit it
+   */
+  async fillAndSubmit(data: Partial<T>): Promise<void> {
+    await this.fill(data);
+    await this.submit();
+  }
+
+  /**
+   * Read every field back from the page
+   */
+  async read(): Promise<FormSnapshot<T>> {
+    const snapshot: Record<string, string | boolean | string[]> = {};
+    for (const name of Object.keys(this.fields) as (keyof T & string)[]) {
+      snapshot[name] = await this.getField(name);
+    }
+    return snapshot as FormSnapshot<T>;
+  }
+
+  /**
+   * Set a single field
+   */
+  async setField(name: keyof T & string, value: FieldValue): Promise<void> {
+    const definition = this.fields[name];
+    const element = this.resolve(definition);
+    const type = definition.type ?? (await this.detectType(element, value));
+
+    this.logger.info(
+      `Setting ${name} = ${definition.sensitive ? '***' : this.display(value)}`
+    );
+    switch (type) {
+      case 'checkbox':
+        await element.setChecked(Boolean(value));
+        break;
+      case 'select':
+        await element.selectOption(
+          definition.selectBy === 'value'
+            ? { value: String(value) }
+            : { label: String(value) }
+        );
+        break;
+      case 'radio':
+        await this.checkRadio(element, String(value));
+        break;
+      case 'date':
+        await element.fill(await this.dateText(element, definition, value));
+        break;
+      case 'file':
+        await element.setInputFiles(
+          Array.isArray(value) ? value : [String(value)]
+        );
+        break;
+      default:
+        await element.fill(String(value));
+    }
+  }
+
+  /**
+   * Read a single field
+   */
+  async getField(name: keyof T & string): Promise<string | boolean | string[]> {
+    const definition = this.fields[name];
+    const element = this.resolve(definition);
+    const type = definition.type ?? (await this.detectType(element));
+
+    switch (type) {
+      case 'checkbox':
+        return element.isChecked();
+      case 'select':
+        return element.evaluate((select, by) => {
+          const option = (select as HTMLSelectElement).selectedOptions[0];
+          return (by === 'value' ? option?.value : option?.label) ?? '';
+        }, definition.selectBy ?? 'label');
+      case 'radio': {
+        const group = await this.radioGroup(element);
+        const checked = group.locator('input[type="radio"]:checked');
+        if ((await checked.count()) === 0) {
+          return '';
+        }
+        return checked.evaluate(
+          input =>
+            (input as HTMLInputElement).labels?.[0]?.textContent?.trim() ??
+            (input as HTMLInputElement).value
+        );
+      }
+      case 'file':
+        return element.evaluate(input =>
+          Array.from((input as HTMLInputElement).files ?? []).map(
+            file => file.name
+          )
+        );
+      default:
+        return element.inputValue();
+    }
+  }
+
+  private resolve(definition: FieldDefinition): Locator {
+    if (definition.locator) {
+      return definition.locator;
+    }
+    if (definition.testId) {
+      return this.getByTestId(definition.testId);
+    }
+    if (definition.label) {
+      // Radio buttons are labelled individually; the group (a fieldset or
+      // radiogroup) carries the name
+      const group = this.root
+        .getByRole('radiogroup', { name: definition.label })
+        .or(this.root.getByRole('group', { name: definition.label }));
+      if (definition.type === 'radio') {
+        return group.first();
+      }
+      const field = this.field(definition.label);
+      return definition.type ? field : field.or(group).first();
+    }
+    throw new Error('Field definition needs a label, testId or locator');
+  }
+
+  private async detectType(
+    element: Locator,
+    value?: FieldValue
+  ): Promise<FieldType> {
+    if (typeof value === 'boolean') {
+      return 'checkbox';
+    }
+    if (value instanceof Date) {
+      return 'date';
+    }
+    if (Array.isArray(value)) {
+      return 'file';
+    }
+
+    const { tag, type, isGroup } = await element.evaluate(el => ({
+      tag: el.tagName.toLowerCase(),
+      type: (el.getAttribute('type') ?? '').toLowerCase(),
+      isGroup:
+        (el.tagName === 'FIELDSET' ||
+          ['radiogroup', 'group'].includes(el.getAttribute('role') ?? '')) &&
+        el.querySelector('input[type="radio"], [role="radio"]') !== null,
+    }));
+    if (tag === 'select') {
+      return 'select';
+    }
+    if (isGroup) {
+      return 'radio';
+    }
+    if (type === 'checkbox' || type === 'radio' || type === 'file') {
+      return type;
+    }
+    if (type === 'date' || type === 'datetime-local') {
+      return 'date';
+    }
+    return 'text';
+  }
+
+  /**
+   * Check the option of a radio group with the given label
+   * @throws listing the group's options when none has that label
+   */
+  private async checkRadio(element: Locator, label: string): Promise<void> {
+    const group = await this.radioGroup(element);
+    const option = group.getByLabel(label, { exact: true });
+    if ((await option.count()) === 0) {
+      const options = await group
+        .locator('input[type="radio"]')
+        .evaluateAll(inputs =>
+          inputs.map(
+            input =>
+              (input as HTMLInputElement).labels?.[0]?.textContent?.trim() ??
+              (input as HTMLInputElement).value
+          )
+        );
+      throw new Error(
+        `No radio option "${label}"; options are: ${options.join(', ')}`
+      );
+    }
+    await option.check();
+  }
+
+  /**
+   * The group a radio field belongs to: the element itself, or the closest
+   * fieldset or (radio)group around a single radio button
+   * @throws when a single radio button has no group around it
+   */
+  private async radioGroup(element: Locator): Promise<Locator> {
+    const isRadio = await element.evaluate(
+      el =>
+        (el.getAttribute('type') ?? '').toLowerCase() === 'radio' ||
+        el.getAttribute('role') === 'radio'
+    );
+    if (!isRadio) {
+      return element;
+    }
+    const group = element.locator(
+      'xpath=ancestor::*[self::fieldset or @role="radiogroup" or @role="group"][1]'
+    );
+    if ((await group.count()) === 0) {
+      throw new Error(
+        'Radio field points at a single radio button outside any fieldset or radiogroup; point it at the group instead'
+      );
+    }
+    return group;
+  }
+
+  private async dateText(
+    element: Locator,
+    definition: FieldDefinition,
+    value: FieldValue
+  ): Promise<string> {
+    if (!(value instanceof Date)) {
+      return String(value);
+    }
+    if (definition.formatDate) {
+      return definition.formatDate(value);
+    }
+
+    // Native inputs expect local date (and time) in ISO form
+    const pad = (n: number) => String(n).padStart(2, '0');
+    const date = `${value.getFullYear()}-${pad(value.getMonth() + 1)}-${pad(value.getDate())}`;
+    const inputType = await element.getAttribute('type');
+    return inputType === 'datetime-local'
+      ? `${date}T${pad(value.getHours())}:${pad(value.getMinutes())}`
+      : date;
+  }
+
+  private display(value: FieldValue): string {
+    if (value instanceof Date) {
+      return value.toISOString();
+    }
+    return Array.isArray(value) ? value.join(', ') : String(value);
+  }
+}
@@ -0,0 +1,211 @@
+import * as dotenv from 'dotenv';
+import * as fs from 'fs';
+import { Redactor } from '../utils/Redactor';
+import {
+  AppName,
+  BASE_URL_KEYS,
+  DEFAULT_ENVIRONMENT,
+  ENVIRONMENT_NAMES,
+  ENVIRONMENT_PROFILES,
+  EnvironmentName,
+  NETWORK_MODES,
+  NetworkMode,
+  RoleDefinition,
+  USER_ROLES,
+  UserRole,
+} from './EnvironmentProfiles';
+
+export interface Credentials {
+  username: string;
+  password: string;
+}
+
+type EnvironmentVariables = Record<string, string | undefined>;
+
+/**
+ * Thrown when the selected environment is missing required keys or
+ * contains invalid values. Lists every problem found, not just the first.
+ */
+export class ConfigurationError extends Error {
+  readonly problems: string[];
+
+  constructor(environment: string, problems: string[]) {
+    super(
+      `Invalid configuration for test environment "${environment}":\n` +
+        problems.map(problem => `  - ${problem}`).join('\n')
+    );
+    this.name = 'ConfigurationError';
+    this.problems = problems;
+  }
+}
+
+/**
+ * Typed, validated view of the environment selected through TEST_ENV
+ */
+export class EnvironmentConfig {
+  private static current: EnvironmentConfig | null = null;
+
+  readonly name: EnvironmentName;
+  readonly networkMode: NetworkMode;
+  private readonly baseUrls: Record<AppName, string>;
+  private readonly credentials: Partial<Record<UserRole, Credentials>>;
+
+  private constructor(
+    name: EnvironmentName,
+    networkMode: NetworkMode,
+    baseUrls: Record<AppName, string>,
+    credentials: Partial<Record<UserRole, Credentials>>
+  ) {
+    this.name = name;
+    this.networkMode = networkMode;
+    this.baseUrls = baseUrls;
+    this.credentials = credentials;
+  }
+
+  /**
+   * Load and validate the environment for this process. `.env.<TEST_ENV>`
+   * takes precedence over `.env`, and real environment variables over both.
+   * The result is cached, so every fixture and worker sees the same config.
+   */
+  static load(): EnvironmentConfig {
+    if (!EnvironmentConfig.current) {
+      const name = EnvironmentConfig.selectedEnvironment();
+      dotenv.config({ path: [`.env.${name}`, '.env'], quiet: true });
+      // Keep credentials and tokens out of logs and report attachments
+      Redactor.registerSecretsFrom(process.env);
+      EnvironmentConfig.current = EnvironmentConfig.fromVariables(process.env);
+    }
+    return EnvironmentConfig.current;
+  }
+
+  /**
+   * Build a config from a set of variables, failing with every missing or
+   * invalid key at once
+   */
+  static fromVariables(variables: EnvironmentVariables): EnvironmentConfig {
+    const requested = variables.TEST_ENV || DEFAULT_ENVIRONMENT;
+    if (!EnvironmentConfig.isEnvironmentName(requested)) {
+      throw new ConfigurationError(requested, [
+        `TEST_ENV must be one of ${ENVIRONMENT_NAMES.join(', ')} (got "${requested}")`,
+      ]);
+    }
+
+    const problems: string[] = [];
+    const profile = ENVIRONMENT_PROFILES[requested];
+
+    const networkMode = variables.NETWORK_MODE || 'live';
+    if (!(NETWORK_MODES as string[]).includes(networkMode)) {
+      problems.push(
+        `NETWORK_MODE must be one of ${NETWORK_MODES.join(', ')} (got "${networkMode}")`
+      );
+    }
+    const baseUrls = {} as Record<AppName, string>;
+
+    for (const [app, key] of Object.entries(BASE_URL_KEYS) as [
+      AppName,
+      string,
+    ][]) {
+      const value = variables[key] || profile.baseUrls[app];
+      if (!value) {
+        problems.push(`${key} is required`);
+      } else if (!EnvironmentConfig.isHttpUrl(value)) {
+        problems.push(`${key} is not a valid http(s) URL: "${value}"`);
+      } else {
+        baseUrls[app] = value;
+      }
+    }
+
+    const credentials: Partial<Record<UserRole, Credentials>> = {};
+    for (const [role, definition] of Object.entries(USER_ROLES) as [
+      UserRole,
+      RoleDefinition,
+    ][]) {
+      const username = variables[definition.usernameKey];
+      const password = variables[definition.passwordKey];
+      if (username && password) {
+        credentials[role] = { username, password };
+      } else if (username || password) {
+        const missing = username
+          ? definition.passwordKey
+          : definition.usernameKey;
+        const present = username
+          ? definition.usernameKey
+          : definition.passwordKey;
+        problems.push(`${missing} is required when ${present} is set`);
+      }
+    }
+
+    if (problems.length > 0) {
+      throw new ConfigurationError(requested, problems);
+    }
+
+    return new EnvironmentConfig(
+      requested,
+      networkMode as NetworkMode,
+      baseUrls,
+      credentials
+    );
+  }
+
+  /**
+   * Get the base URL of an application in this environment
+   */
+  baseUrl(app: AppName): string {
+    return this.baseUrls[app];
+  }
+
+  /**
+   * Check whether credentials are configured for a role
+   */
+  hasCredentials(role: UserRole): boolean {
+    return this.credentials[role] !== undefined;
+  }
+
+  /**
+   * Get the credentials for a role, failing if they are not configured
+   */
+  credentialsFor(role: UserRole): Credentials {
+    const credentials = this.credentials[role];
+    if (!credentials) {
+      const { usernameKey, passwordKey } = USER_ROLES[role];
+      throw new ConfigurationError(this.name, [
+        `Credentials for role "${role}" require ${usernameKey} and ${passwordKey}`,
+      ]);
+    }
+    return credentials;
+  }
+
+  /**
+   * Roles that have credentials in this environment
+   */
+  configuredRoles(): UserRole[] {
+    return Object.keys(this.credentials) as UserRole[];
+  }
+
+  private static selectedEnvironment(): string {
+    if (process.env.TEST_ENV) {
+      return process.env.TEST_ENV;
+    }
+    // TEST_ENV may itself live in .env, which decides the override file
+    if (fs.existsSync('.env')) {
+      const parsed = dotenv.parse(fs.readFileSync('.env'));
+      if (parsed.TEST_ENV) {
+        return parsed.TEST_ENV;
+      }
+    }
+    return DEFAULT_ENVIRONMENT;
+  }
+
+  private static isEnvironmentName(value: string): value is EnvironmentName {
+    return (ENVIRONMENT_NAMES as string[]).includes(value);
+  }
+
+  private static isHttpUrl(value: string): boolean {
+    try {
+      const url = new URL(value);
+      return url.protocol === 'http:' || url.protocol === 'https:';
+    } catch (_error) {
+      return false;
+    }
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * Names of the environments tests can be pointed at via TEST_ENV
+ */
+export type EnvironmentName = 'dev' | 'qa' | 'staging' | 'prod';
+
+/**
+ * Applications that page objects and API clients can target
+ */
+export type AppName = 'pos' | 'cpms' | 'wikipedia' | 'commons' | 'api';
+
+/**
+ * User roles that can hold credentials in an environment
+ */
+export type UserRole = 'posUser' | 'cpmsUser';
+
+/**
+ * How browser traffic is served: from the network, replayed from recorded
+ * HAR files, or replayed with anything missing recorded from the network
+ */
+export type NetworkMode = 'live' | 'replay' | 'record';
+
+/**
+ * Default values for a single environment. Any base URL left out here must
+ * be supplied through its environment variable (see BASE_URL_KEYS).
+ */
+export interface EnvironmentProfile {
+  baseUrls: Partial<Record<AppName, string>>;
+}
+
+/**
+ * Describes where a role's credentials are read from
+ */
+export interface RoleDefinition {
+  app: AppName;
+  usernameKey: string;
+  passwordKey: string;
+}
+
+export const ENVIRONMENT_NAMES: EnvironmentName[] = [
+  'dev',
+  'qa',
+  'staging',
+  'prod',
+];
+
+export const DEFAULT_ENVIRONMENT: EnvironmentName = 'qa';
+
+export const NETWORK_MODES: NetworkMode[] = ['live', 'replay', 'record'];
+
+/**
+ * Environment variables that override each application's base URL
+ */
+export const BASE_URL_KEYS: Record<AppName, string> = {
+  pos: 'POS_BASE_URL',
+  cpms: 'CPMS_BASE_URL',
+  wikipedia: 'WIKIPEDIA_BASE_URL',
+  commons: 'COMMONS_BASE_URL',
+  api: 'API_BASE_URL',
+};
+
+export const USER_ROLES: Record<UserRole, RoleDefinition> = {
+  posUser: {
+    app: 'pos',
+    usernameKey: 'POS_USERNAME',
+    passwordKey: 'POS_PASSWORD',
+  },
+  cpmsUser: {
+    app: 'cpms',
+    usernameKey: 'CPMS_USERNAME',
+    passwordKey: 'CPMS_PASSWORD',
+  },
+};
+
+// Public sites used by the example suites are the same in every environment
+const PUBLIC_BASE_URLS: Partial<Record<AppName, string>> = {
+  wikipedia: 'https://www.wikipedia.org/',
+  commons: 'https://commons.wikimedia.org/',
+  api: 'https://jsonplaceholder.typicode.com/',
+};
+
+export const ENVIRONMENT_PROFILES: Record<EnvironmentName, EnvironmentProfile> =
+  {
+    dev: {
+      baseUrls: { ...PUBLIC_BASE_URLS },
+    },
+    qa: {
+      baseUrls: {
+        ...PUBLIC_BASE_URLS,
+        pos: 'https://qa.dtfsaunz.trq.cloud/pos/v3/',
+        cpms: 'https://qa.dtfsaunz.trq.cloud/cpms/',
+      },
+    },
+    staging: {
+      baseUrls: { ...PUBLIC_BASE_URLS },
+    },
+    prod: {
+      baseUrls: { ...PUBLIC_BASE_URLS },
+    },
+  };
@@ -0,0 +1,200 @@
+const FIRST_NAMES = [
+  'Olivia',
+  'Noah',
+  'Charlotte',
+  'Jack',
+  'Amelia',
+  'William',
+  'Isla',
+  'Oliver',
+  'Mia',
+  'Leo',
+  'Ava',
+  'Henry',
+  'Grace',
+  'Lucas',
+  'Chloe',
+  'Thomas',
+];
+const LAST_NAMES = [
+  'Smith',
+  'Jones',
+  'Williams',
+  'Brown',
+  'Wilson',
+  'Taylor',
+  'Nguyen',
+  'Martin',
+  'Anderson',
+  'Walker',
+  'Harris',
+  'Lee',
+  'Ryan',
+  'Kelly',
+  'Murphy',
+  'Chen',
+];
+const COMPANY_WORDS = [
+  'Transport',
+  'Logistics',
+  'Haulage',
+  'Freight',
+  'Civil',
+  'Mining',
+  'Fleet',
+  'Construction',
+  'Express',
+  'Rural',
+];
+const COMPANY_SUFFIXES = ['Pty Ltd', 'Ltd', 'Group', 'Holdings'];
+const CITIES = [
+  'Sydney',
+  'Melbourne',
+  'Brisbane',
+  'Perth',
+  'Adelaide',
+  'Auckland',
+  'Wellington',
+  'Hobart',
+  'Darwin',
+  'Canberra',
+];
+const WORDS = [
+  'truck',
+  'lease',
+  'finance',
+  'quote',
+  'fleet',
+  'service',
+  'contract',
+  'term',
+  'payment',
+  'vehicle',
+  'dealer',
+  'customer',
+  'balloon',
+  'rate',
+  'asset',
+];
+
+/**
+ * Deterministic fake data. The same seed always produces the same
+ * sequence of values, so a failing run can be replayed with its seed.
+ */
+export class FakeData {
+  readonly seed: number;
+  private state: number;
+
+  constructor(seed: number = FakeData.randomSeed()) {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+
+  /**
+   * A new seed, for when none was requested
+   */
+  static randomSeed(): number {
+    return Math.floor(Math.random() * 2 ** 32);
+  }
+
+  /**
+   * Next float in [0, 1) (mulberry32)
+   */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 2 ** 32;
+  }
+
+  /**
+   * Integer between min and max, inclusive
+   */
+  int(min: number, max: number): number {
+    return min + Math.floor(this.next() * (max - min + 1));
+  }
+
+  /**
+   * Number between min and max rounded to the given decimal places
+   */
+  amount(min: number, max: number, decimals: number = 2): number {
+    const factor = 10 ** decimals;
+    return Math.round((min + this.next() * (max - min)) * factor) / factor;
+  }
+
+  bool(probability: number = 0.5): boolean {
+    return this.next() < probability;
+  }
+
+  pick<T>(items: readonly T[]): T {
+    return items[this.int(0, items.length - 1)];
+  }
+
+  /**
+   * Random letters and digits
+   */
+  alphanumeric(length: number): string {
+    const chars = 'ABCDEFGHJKLMNPQRSTUVWXYZ0123456789';
+    return Array.from({ length }, () => this.pick([...chars])).join('');
+  }
+
+  /**
+   * UUID v4 format, drawn from the seeded sequence
+   */
+  uuid(): string {
+    const hex = Array.from({ length: 32 }, () => this.int(0, 15).toString(16));
+    hex[12] = '4';
+    hex[16] = ((this.int(0, 15) & 0x3) | 0x8).toString(16);
+    const s = hex.join('');
+    return `${s.slice(0, 8)}-${s.slice(8, 12)}-${s.slice(12, 16)}-${s.slice(16, 20)}-${s.slice(20)}`;
+  }
+
+  firstName(): string {
+    return this.pick(FIRST_NAMES);
+  }
+
+  lastName(): string {
+    return this.pick(LAST_NAMES);
+  }
+
+  fullName(): string {
+    return `${this.firstName()} ${this.lastName()}`;
+  }
+
+  /**
+   * Address on a reserved test domain, unique enough for created accounts
+   */
+  email(name: string = this.fullName()): string {
+    const local = name.toLowerCase().replace(/[^a-z0-9]+/g, '.');
+    return `${local}.${this.alphanumeric(4).toLowerCase()}@example.test`;
+  }
+
+  company(): string {
+    return `${this.lastName()} ${this.pick(COMPANY_WORDS)} ${this.pick(COMPANY_SUFFIXES)}`;
+  }
+
+  city(): string {
+    return this.pick(CITIES);
+  }
+
+  phone(): string {
+    return `04${this.int(10, 99)} ${this.int(100, 999)} ${this.int(100, 999)}`;
+  }
+
+  sentence(words: number = this.int(4, 10)): string {
+    const text = Array.from({ length: words }, () => this.pick(WORDS)).join(
+      ' '
+    );
+    return `${text.charAt(0).toUpperCase()}${text.slice(1)}.`;
+  }
+
+  /**
+   * Date within the given number of days from `from` (negative for past)
+   */
+  date(withinDays: number, from: Date = new Date()): Date {
+    const days =
+      withinDays < 0 ? this.int(withinDays, 0) : this.int(0, withinDays);
+    return new Date(from.getTime() + days * 24 * 60 * 60 * 1000);
+  }
+}
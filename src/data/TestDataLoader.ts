@@ -0,0 +1,134 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { EnvironmentName } from '../config/EnvironmentProfiles';
+
+export const DEFAULT_DATA_DIR = 'src/data/files';
+
+const SUPPORTED_EXTENSIONS = ['.json', '.csv', '.yaml', '.yml'];
+
+/**
+ * Loads test data files, preferring the current environment's copy:
+ * `<dataDir>/<environment>/<name>.<ext>`, then `<dataDir>/<name>.<ext>`,
+ * where ext is json, csv, yaml or yml
+ */
+export class TestDataLoader {
+  readonly environment: EnvironmentName;
+  private readonly dataDir: string;
+
+  constructor(
+    environment: EnvironmentName,
+    dataDir: string = DEFAULT_DATA_DIR
+  ) {
+    this.environment = environment;
+    this.dataDir = dataDir;
+  }
+
+  /**
+   * Load a data file by name, without extension. CSV files load as one
+   * object per row keyed by the header row.
+   */
+  load<T = Record<string, string>[]>(name: string): T {
+    const filePath = this.resolve(name);
+    if (!filePath) {
+      throw new Error(
+        `No test data "${name}" for ${this.environment} in ${this.dataDir} (looked for ${SUPPORTED_EXTENSIONS.join(', ')})`
+      );
+    }
+    return TestDataLoader.readFile<T>(filePath);
+  }
+
+  /**
+   * Path of the file `load` would read, if any
+   */
+  resolve(name: string): string | undefined {
+    for (const dir of [
+      path.join(this.dataDir, this.environment),
+      this.dataDir,
+    ]) {
+      for (const extension of SUPPORTED_EXTENSIONS) {
+        const candidate = path.join(dir, `${name}${extension}`);
+        if (fs.existsSync(candidate)) {
+          return candidate;
+        }
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Read a JSON, CSV or YAML file, chosen by extension
+   */
+  static readFile<T>(filePath: string): T {
+    const content = fs.readFileSync(filePath, 'utf-8');
+    switch (path.extname(filePath).toLowerCase()) {
+      case '.json':
+        return JSON.parse(content) as T;
+      case '.csv':
+        return TestDataLoader.parseCsv(content) as T;
+      case '.yaml':
+      case '.yml':
+        return parseYaml(content) as T;
+      default:
+        throw new Error(`Unsupported test data file type: ${filePath}`);
+    }
+  }
+
+  /**
+   * Parse CSV with a header row. Supports quoted fields containing commas,
+   * newlines and doubled quotes; blank lines are skipped.
+   */
+  static parseCsv(content: string): Record<string, string>[] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+
+    const text = content.replace(/^\uFEFF/, '');
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+      if (quoted) {
+        if (char === '"' && text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else if (char === '"') {
+          quoted = false;
+        } else {
+          field += char;
+        }
+      } else if (char === '"') {
+        quoted = true;
+      } else if (char === ',') {
+        row.push(field);
+        field = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && text[i + 1] === '\n') {
+          i++;
+        }
+        row.push(field);
+        rows.push(row);
+        row = [];
+        field = '';
+      } else {
+        field += char;
+      }
+    }
+    if (field || row.length > 0) {
+      row.push(field);
+      rows.push(row);
+    }
+
+    const [header, ...records] = rows.filter(
+      r => r.length > 1 || r[0].trim() !== ''
+    );
+    if (!header) {
+      return [];
+    }
+    const columns = header.map(column => column.trim());
+    return records.map(record =>
+      Object.fromEntries(
+        columns.map((column, index) => [column, record[index] ?? ''])
+      )
+    );
+  }
+}
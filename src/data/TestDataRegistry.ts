@@ -0,0 +1,70 @@
+import { Logger } from '../utils/Logger';
+
+interface RegisteredEntity {
+  description: string;
+  cleanup: () => Promise<void>;
+}
+
+/**
+ * Tracks entities a test created so they can be deleted at teardown.
+ * Cleanups run newest first, so dependants go before what they depend on.
+ */
+export class TestDataRegistry {
+  private entities: RegisteredEntity[] = [];
+  private logger: Logger;
+
+  constructor() {
+    this.logger = Logger.for('TestDataRegistry');
+  }
+
+  /**
+   * Register a cleanup for something created outside the registry
+   */
+  register(description: string, cleanup: () => Promise<void>): void {
+    this.entities.push({ description, cleanup });
+    this.logger.debug(`Registered ${description} for cleanup`);
+  }
+
+  /**
+   * Create an entity and register its removal
+   * Usage: const post = await testData.create('post', () => api.createPost(data), p => api.deletePost(p.id));
+   */
+  async create<T>(
+    description: string,
+    create: () => Promise<T>,
+    remove: (entity: T) => Promise<void>
+  ): Promise<T> {
+    const entity = await create();
+    this.register(description, () => remove(entity));
+    this.logger.info(`Created ${description}`);
+    return entity;
+  }
+
+  /**
+   * Entities still waiting for cleanup
+   */
+  pending(): string[] {
+    return this.entities.map(entity => entity.description);
+  }
+
+  /**
+   * Run every cleanup, continuing past failures
+   * @returns descriptions of entities that could not be cleaned up
+   */
+  async cleanup(): Promise<string[]> {
+    const failed: string[] = [];
+    const entities = [...this.entities].reverse();
+    this.entities = [];
+
+    for (const { description, cleanup } of entities) {
+      try {
+        await cleanup();
+        this.logger.info(`Cleaned up ${description}`);
+      } catch (error) {
+        failed.push(description);
+        this.logger.error(`Failed to clean up ${description}`, error);
+      }
+    }
+    return failed;
+  }
+}
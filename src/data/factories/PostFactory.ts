@@ -0,0 +1,12 @@
+import { NewPost } from '../../api/jsonplaceholder/JsonPlaceholderSchemas';
+import { Factory } from '../Factory';
+
+/**
+ * Posts for the JSONPlaceholder API
+ * Usage: postFactory.using(fake).build({ userId: 1 })
+ */
+export const postFactory = new Factory<NewPost>((fake, sequence) => ({
+  userId: fake.int(1, 10),
+  title: `${fake.sentence(4)} #${sequence}`,
+  body: fake.sentence(),
+}));
@@ -0,0 +1,191 @@
+import { Logger } from '../utils/Logger';
+import { EmailMessage } from './MimeParser';
+import { SmtpCaptureServer } from './SmtpCaptureServer';
+
+/**
+ * Matches a captured message. Strings match the recipient exactly (case
+ * insensitive) and the subject as a substring.
+ */
+export interface MessageQuery {
+  to?: string | RegExp;
+  subject?: string | RegExp;
+  /** Milliseconds to wait for a match, defaults to 30 seconds */
+  timeout?: number;
+}
+
+/**
+ * A test's view of the SMTP capture server: hands out addresses unique to
+ * the test and waits for messages sent to them, so parallel tests never see
+ * each other's emails.
+ */
+export class Inbox {
+  static readonly DEFAULT_TIMEOUT = 30_000;
+
+  readonly domain: string;
+  private readonly server: SmtpCaptureServer;
+  private readonly prefix: string;
+  private readonly issued: Set<string> = new Set();
+  private logger: Logger;
+
+  /**
+   * @param prefix - unique to the test, e.g. derived from its id and retry
+   */
+  constructor(
+    server: SmtpCaptureServer,
+    prefix: string,
+    domain: string = 'inbox.test'
+  ) {
+    this.server = server;
+    this.prefix = prefix.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+    this.domain = domain;
+    this.logger = Logger.for('Inbox');
+  }
+
+  /**
+   * SMTP host and port to configure the application under test with
+   */
+  get smtp(): { host: string; port: number } {
+    return { host: this.server.host, port: this.server.port };
+  }
+
+  /**
+   * A new address that only this test receives mail for
+   * @param label - readable part of the address, e.g. 'buyer'
+   */
+  address(label: string = 'user'): string {
+    const name = label.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+    const address = `${name}.${this.prefix}.${this.issued.size + 1}@${this.domain}`;
+    this.issued.add(address);
+    return address;
+  }
+
+  /**
+   * Messages received so far for this test's addresses, oldest first
+   */
+  messages(): EmailMessage[] {
+    return this.server.messages().filter(message => this.isOwn(message));
+  }
+
+  /**
+   * Wait for a message to one of this test's addresses
+   * @throws if nothing matches within the timeout
+   */
+  async waitForMessage(query: MessageQuery = {}): Promise<EmailMessage> {
+    const { timeout = Inbox.DEFAULT_TIMEOUT } = query;
+    const matches = (message: EmailMessage) =>
+      this.isOwn(message) && Inbox.matches(message, query);
+
+    const existing = this.server.messages().find(matches);
+    if (existing) {
+      return existing;
+    }
+
+    this.logger.debug(
+      `Waiting up to ${timeout}ms for ${Inbox.describe(query)}`
+    );
+    return new Promise<EmailMessage>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        unsubscribe();
+        const received = this.messages()
+          .map(m => `"${m.subject}" to ${m.to.join(', ')}`)
+          .join('; ');
+        reject(
+          new Error(
+            `No email matching ${Inbox.describe(query)} within ${timeout}ms. ` +
+              `Received: ${received || 'none'}`
+          )
+        );
+      }, timeout);
+      const unsubscribe = this.server.onMessage(message => {
+        if (matches(message)) {
+          clearTimeout(timer);
+          unsubscribe();
+          resolve(message);
+        }
+      });
+    });
+  }
+
+  /**
+   * Links in a message, from the HTML hrefs when present, otherwise from
+   * the plain text
+   * @param filter - keep only links containing the string or matching it
+   */
+  static links(message: EmailMessage, filter?: string | RegExp): string[] {
+    const found = message.html
+      ? Array.from(
+          message.html.matchAll(/href\s*=\s*["']([^"']+)["']/gi),
+          match => match[1].replace(/&amp;/g, '&')
+        )
+      : Array.from(message.text.matchAll(/https?:\/\/[^\s<>"')\]]+/g), m =>
+          m[0].replace(/[.,;:]$/, '')
+        );
+    const links = [...new Set(found)].filter(link => /^https?:/i.test(link));
+    if (filter === undefined) {
+      return links;
+    }
+    return links.filter(link =>
+      typeof filter === 'string' ? link.includes(filter) : filter.test(link)
+    );
+  }
+
+  /**
+   * The first link in a message, optionally filtered
+   * @throws if the message has no matching link
+   */
+  static link(message: EmailMessage, filter?: string | RegExp): string {
+    const [link] = Inbox.links(message, filter);
+    if (!link) {
+      throw new Error(
+        `Email "${message.subject}" has no link${filter ? ` matching ${filter}` : ''}`
+      );
+    }
+    return link;
+  }
+
+  /**
+   * A one-time code from the message text. The first capture group is
+   * returned when the pattern has one, otherwise the whole match.
+   * @param pattern - defaults to the first standalone 4 to 8 digit number
+   * @throws if the message has no code
+   */
+  static code(message: EmailMessage, pattern: RegExp = /\b\d{4,8}\b/): string {
+    const match = pattern.exec(message.text);
+    if (!match) {
+      throw new Error(
+        `Email "${message.subject}" has no code matching ${pattern}`
+      );
+    }
+    return match[1] ?? match[0];
+  }
+
+  private isOwn(message: EmailMessage): boolean {
+    return message.to.some(to => this.issued.has(to));
+  }
+
+  private static matches(message: EmailMessage, query: MessageQuery): boolean {
+    const { to, subject } = query;
+    if (
+      to !== undefined &&
+      !message.to.some(address =>
+        typeof to === 'string' ? address === to.toLowerCase() : to.test(address)
+      )
+    ) {
+      return false;
+    }
+    if (subject !== undefined) {
+      return typeof subject === 'string'
+        ? message.subject.includes(subject)
+        : subject.test(message.subject);
+    }
+    return true;
+  }
+
+  private static describe(query: MessageQuery): string {
+    const parts = [
+      query.to !== undefined && `to ${query.to}`,
+      query.subject !== undefined && `subject ${query.subject}`,
+    ].filter(Boolean);
+    return parts.length ? parts.join(', ') : 'any message';
+  }
+}
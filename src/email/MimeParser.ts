@@ -0,0 +1,208 @@
+/**
+ * A captured email. `to` holds the SMTP envelope recipients, which also
+ * covers Bcc addresses missing from the headers.
+ */
+export interface EmailMessage {
+  id: number;
+  from: string;
+  to: string[];
+  subject: string;
+  receivedAt: Date;
+  /** Header names in lower case; repeated headers keep the last value */
+  headers: Record<string, string>;
+  text: string;
+  html?: string;
+  raw: string;
+}
+
+interface MimePart {
+  headers: Record<string, string>;
+  body: string;
+}
+
+interface ContentType {
+  type: string;
+  params: Record<string, string>;
+}
+
+/**
+ * Minimal MIME parsing for captured test emails: headers, encoded-word
+ * subjects, multipart bodies and base64/quoted-printable transfer encodings
+ */
+export class MimeParser {
+  static parse(
+    raw: string,
+    envelope: { from: string; to: string[] },
+    id: number
+  ): EmailMessage {
+    const root = MimeParser.splitPart(raw);
+    const bodies: { text?: string; html?: string } = {};
+    MimeParser.collectBodies(root, bodies);
+
+    return {
+      id,
+      from: MimeParser.decodeWords(root.headers['from'] ?? envelope.from),
+      to: envelope.to,
+      subject: MimeParser.decodeWords(root.headers['subject'] ?? ''),
+      receivedAt: new Date(),
+      headers: root.headers,
+      text: bodies.text ?? MimeParser.htmlToText(bodies.html ?? ''),
+      html: bodies.html,
+      raw,
+    };
+  }
+
+  private static splitPart(raw: string): MimePart {
+    const match = /\r?\n\r?\n/.exec(raw);
+    const head = match ? raw.slice(0, match.index) : raw;
+    const body = match ? raw.slice(match.index + match[0].length) : '';
+
+    const headers: Record<string, string> = {};
+    for (const line of head.replace(/\r?\n[ \t]+/g, ' ').split(/\r?\n/)) {
+      const separator = line.indexOf(':');
+      if (separator > 0) {
+        headers[line.slice(0, separator).trim().toLowerCase()] = line
+          .slice(separator + 1)
+          .trim();
+      }
+    }
+    return { headers, body };
+  }
+
+  private static collectBodies(
+    part: MimePart,
+    bodies: { text?: string; html?: string }
+  ): void {
+    const contentType = MimeParser.contentType(part.headers['content-type']);
+
+    if (
+      contentType.type.startsWith('multipart/') &&
+      contentType.params.boundary
+    ) {
+      for (const child of MimeParser.splitMultipart(
+        part.body,
+        contentType.params.boundary
+      )) {
+        MimeParser.collectBodies(MimeParser.splitPart(child), bodies);
+      }
+      return;
+    }
+
+    const disposition = part.headers['content-disposition'] ?? '';
+    if (disposition.toLowerCase().startsWith('attachment')) {
+      return;
+    }
+    const content = MimeParser.decodeBody(
+      part.body,
+      part.headers['content-transfer-encoding'],
+      contentType.params.charset
+    );
+    if (contentType.type === 'text/html') {
+      bodies.html ??= content;
+    } else if (contentType.type === 'text/plain') {
+      bodies.text ??= content;
+    }
+  }
+
+  private static splitMultipart(body: string, boundary: string): string[] {
+    const delimiter = `--${boundary}`;
+    const parts: string[] = [];
+    // Everything before the first delimiter is preamble
+    for (const section of body.split(delimiter).slice(1)) {
+      if (section.startsWith('--')) {
+        break;
+      }
+      parts.push(section.replace(/^[ \t]*\r?\n/, '').replace(/\r?\n$/, ''));
+    }
+    return parts;
+  }
+
+  private static contentType(header: string = 'text/plain'): ContentType {
+    const [type, ...params] = header.split(';');
+    return {
+      type: type.trim().toLowerCase(),
+      params: Object.fromEntries(
+        params
+          .map(param => param.split('='))
+          .filter(([name, value]) => name && value !== undefined)
+          .map(([name, ...value]) => [
+            name.trim().toLowerCase(),
+            value.join('=').trim().replace(/^"|"$/g, ''),
+          ])
+      ),
+    };
+  }
+
+  private static decodeBody(
+    body: string,
+    encoding: string = '7bit',
+    charset: string = 'utf-8'
+  ): string {
+    switch (encoding.trim().toLowerCase()) {
+      case 'base64':
+        return MimeParser.toText(
+          Buffer.from(body.replace(/\s+/g, ''), 'base64'),
+          charset
+        );
+      case 'quoted-printable':
+        return MimeParser.toText(
+          MimeParser.decodeQuotedPrintable(body),
+          charset
+        );
+      default:
+        return body;
+    }
+  }
+
+  private static decodeQuotedPrintable(text: string): Buffer {
+    const bytes: number[] = [];
+    const source = Buffer.from(text.replace(/=\r?\n/g, ''), 'utf-8');
+    for (let i = 0; i < source.length; i++) {
+      const hex = source.toString('latin1', i + 1, i + 3);
+      if (source[i] === 0x3d && /^[0-9A-Fa-f]{2}$/.test(hex)) {
+        bytes.push(parseInt(hex, 16));
+        i += 2;
+      } else {
+        bytes.push(source[i]);
+      }
+    }
+    return Buffer.from(bytes);
+  }
+
+  private static toText(buffer: Buffer, charset: string): string {
+    const normalized = charset.toLowerCase();
+    return normalized === 'iso-8859-1' || normalized === 'latin1'
+      ? buffer.toString('latin1')
+      : buffer.toString('utf-8');
+  }
+
+  /**
+   * Decode RFC 2047 encoded words such as `=?UTF-8?B?...?=`
+   */
+  static decodeWords(value: string): string {
+    return value
+      .replace(/\?=\s+=\?/g, '?==?')
+      .replace(
+        /=\?([^?]+)\?([BbQq])\?([^?]*)\?=/g,
+        (_match, charset: string, encoding: string, text: string) =>
+          encoding.toUpperCase() === 'B'
+            ? MimeParser.toText(Buffer.from(text, 'base64'), charset)
+            : MimeParser.toText(
+                MimeParser.decodeQuotedPrintable(text.replace(/_/g, ' ')),
+                charset
+              )
+      );
+  }
+
+  private static htmlToText(html: string): string {
+    return html
+      .replace(/<(script|style)[\s\S]*?<\/\1>/gi, '')
+      .replace(/<br\s*\/?>|<\/p>|<\/div>/gi, '\n')
+      .replace(/<[^>]+>/g, '')
+      .replace(/&nbsp;/g, ' ')
+      .replace(/&amp;/g, '&')
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .trim();
+  }
+}
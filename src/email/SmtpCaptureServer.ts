@@ -0,0 +1,276 @@
+import * as net from 'net';
+import { Logger } from '../utils/Logger';
+import { EmailMessage, MimeParser } from './MimeParser';
+
+type SessionState =
+  'command' | 'data' | 'auth-plain' | 'auth-username' | 'auth-password';
+
+interface Session {
+  state: SessionState;
+  buffer: string;
+  from: string;
+  to: string[];
+  data: string[];
+}
+
+/**
+ * A local SMTP stand-in that accepts every message and keeps it in memory.
+ * Point the application under test at its host and port to capture the
+ * emails it sends. AUTH is accepted with any credentials and STARTTLS is
+ * refused, so clients must be configured for plain connections.
+ */
+export class SmtpCaptureServer {
+  readonly host: string;
+  private readonly server: net.Server;
+  private readonly sockets: Set<net.Socket> = new Set();
+  private readonly captured: EmailMessage[] = [];
+  private readonly listeners: Set<(message: EmailMessage) => void> = new Set();
+  private nextId = 1;
+  private logger: Logger;
+
+  constructor(host: string = '127.0.0.1') {
+    this.host = host;
+    this.logger = Logger.for('SmtpCaptureServer');
+    this.server = net.createServer(socket => this.handleConnection(socket));
+  }
+
+  /**
+   * Start listening
+   * @param port - 0 picks a free port
+   * @returns the port listened on
+   */
+  async start(port: number = 0): Promise<number> {
+    await new Promise<void>((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(port, this.host, () => {
+        this.server.off('error', reject);
+        resolve();
+      });
+    });
+    this.logger.info(`SMTP capture server listening on ${this.address}`);
+    return this.port;
+  }
+
+  /**
+   * Close open connections and stop listening
+   */
+  async stop(): Promise<void> {
+    if (!this.server.listening) {
+      return;
+    }
+    for (const socket of this.sockets) {
+      socket.destroy();
+    }
+    await new Promise<void>(resolve => this.server.close(() => resolve()));
+    this.logger.info(
+      `SMTP capture server stopped after ${this.captured.length} message(s)`
+    );
+  }
+
+  get port(): number {
+    const address = this.server.address();
+    return address && typeof address === 'object' ? address.port : 0;
+  }
+
+  get address(): string {
+    return `${this.host}:${this.port}`;
+  }
+
+  /**
+   * Every message received so far, oldest first
+   */
+  messages(): EmailMessage[] {
+    return [...this.captured];
+  }
+
+  /**
+   * Subscribe to messages as they arrive
+   * @returns a function that unsubscribes
+   */
+  onMessage(listener: (message: EmailMessage) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private handleConnection(socket: net.Socket): void {
+    const session: Session = {
+      state: 'command',
+      buffer: '',
+      from: '',
+      to: [],
+      data: [],
+    };
+    this.sockets.add(socket);
+    socket.setEncoding('utf-8');
+    socket.on('close', () => this.sockets.delete(socket));
+    socket.on('error', error =>
+      this.logger.debug('SMTP connection error', { error })
+    );
+    socket.on('data', (chunk: string) => {
+      session.buffer += chunk;
+      let lineEnd: number;
+      while ((lineEnd = session.buffer.indexOf('\n')) !== -1) {
+        const line = session.buffer.slice(0, lineEnd).replace(/\r$/, '');
+        session.buffer = session.buffer.slice(lineEnd + 1);
+        this.handleLine(socket, session, line);
+      }
+    });
+    socket.write(`220 ${this.host} SMTP capture ready\r\n`);
+  }
+
+  private handleLine(socket: net.Socket, session: Session, line: string): void {
+    const reply = (text: string) => socket.write(`${text}\r\n`);
+
+    switch (session.state) {
+      case 'data':
+        if (line === '.') {
+          session.state = 'command';
+          const message = this.store(session);
+          reply(`250 OK: queued as ${message.id}`);
+        } else {
+          // Undo dot-stuffing
+          session.data.push(line.startsWith('.') ? line.slice(1) : line);
+        }
+        return;
+      case 'auth-plain':
+      case 'auth-username':
+      case 'auth-password':
+        this.continueAuth(session, line, reply);
+        return;
+    }
+
+    const [command = '', ...rest] = line.split(' ');
+    const argument = rest.join(' ');
+    switch (command.toUpperCase()) {
+      case 'EHLO':
+        reply(`250-${this.host}`);
+        reply('250-8BITMIME');
+        reply('250-SMTPUTF8');
+        reply('250 AUTH PLAIN LOGIN');
+        return;
+      case 'HELO':
+        reply(`250 ${this.host}`);
+        return;
+      case 'AUTH':
+        this.startAuth(session, argument, reply);
+        return;
+      case 'MAIL':
+        session.from = SmtpCaptureServer.parsePath(argument);
+        session.to = [];
+        reply('250 OK');
+        return;
+      case 'RCPT':
+        session.to.push(SmtpCaptureServer.parsePath(argument).toLowerCase());
+        reply('250 OK');
+        return;
+      case 'DATA':
+        if (session.to.length === 0) {
+          reply('503 RCPT TO required before DATA');
+          return;
+        }
+        session.state = 'data';
+        session.data = [];
+        reply('354 End data with <CR><LF>.<CR><LF>');
+        return;
+      case 'RSET':
+        session.from = '';
+        session.to = [];
+        reply('250 OK');
+        return;
+      case 'NOOP':
+        reply('250 OK');
+        return;
+      case 'QUIT':
+        reply('221 Bye');
+        socket.end();
+        return;
+      case 'STARTTLS':
+        reply('454 TLS not available');
+        return;
+      default:
+        reply('502 Command not implemented');
+    }
+  }
+
+  /**
+   * Begin an AUTH exchange. Credentials are never checked, but the
+   * mechanism's prompts are followed so clients stay in step: PLAIN without
+   * an initial response gets an empty challenge, LOGIN asks for whatever of
+   * the username and password it was not given.
+   */
+  private startAuth(
+    session: Session,
+    argument: string,
+    reply: (text: string) => void
+  ): void {
+    const [mechanism = '', initialResponse] = argument.split(' ');
+    switch (mechanism.toUpperCase()) {
+      case 'PLAIN':
+        if (initialResponse) {
+          reply('235 Authentication successful');
+        } else {
+          session.state = 'auth-plain';
+          reply('334 ');
+        }
+        return;
+      case 'LOGIN':
+        if (initialResponse) {
+          session.state = 'auth-password';
+          reply('334 UGFzc3dvcmQ6');
+        } else {
+          session.state = 'auth-username';
+          reply('334 VXNlcm5hbWU6');
+        }
+        return;
+      default:
+        reply('504 Unrecognized authentication type');
+    }
+  }
+
+  /**
+   * Take the next line of an AUTH exchange; `*` cancels it
+   */
+  private continueAuth(
+    session: Session,
+    line: string,
+    reply: (text: string) => void
+  ): void {
+    if (line === '*') {
+      session.state = 'command';
+      reply('501 Authentication cancelled');
+      return;
+    }
+    if (session.state === 'auth-username') {
+      session.state = 'auth-password';
+      reply('334 UGFzc3dvcmQ6');
+      return;
+    }
+    session.state = 'command';
+    reply('235 Authentication successful');
+  }
+
+  private store(session: Session): EmailMessage {
+    const message = MimeParser.parse(
+      session.data.join('\r\n'),
+      { from: session.from, to: session.to },
+      this.nextId++
+    );
+    this.captured.push(message);
+    session.to = [];
+    this.logger.info(
+      `Captured email #${message.id} "${message.subject}" to ${message.to.join(', ')}`
+    );
+    for (const listener of this.listeners) {
+      listener(message);
+    }
+    return message;
+  }
+
+  /**
+   * Extract the address from `FROM:<a@b>` / `TO:<a@b> SIZE=...`
+   */
+  private static parsePath(argument: string): string {
+    const match = /<([^>]*)>/.exec(argument);
+    return (match ? match[1] : argument.replace(/^(FROM|TO):/i, '')).trim();
+  }
+}
@@ -0,0 +1,26 @@
+import { JsonPlaceholderClient } from '../api/jsonplaceholder/JsonPlaceholderClient';
+import { test as base } from './EnvironmentFixtures';
+
+/**
+ * API client fixtures
+ */
+type ApiFixtures = {
+  jsonPlaceholderClient: JsonPlaceholderClient;
+};
+
+/**
+ * Test extended with typed API clients
+ */
+export const test = base.extend<ApiFixtures>({
+  /**
+   * JsonPlaceholderClient fixture
+   * Automatically creates a new JsonPlaceholderClient instance for each test
+   */
+  jsonPlaceholderClient: async ({ request, environment }, use) => {
+    const jsonPlaceholderClient = new JsonPlaceholderClient(
+      request,
+      environment
+    );
+    await use(jsonPlaceholderClient);
+  },
+});
@@ -0,0 +1,83 @@
+import { BrowserContext, Page } from '@playwright/test';
+import { SessionManager, StorageState } from '../auth/SessionManager';
+import { USER_ROLES, UserRole } from '../config/EnvironmentProfiles';
+import { LoginPage } from '../pages/auth/LoginPage';
+import { test as base } from './EnvironmentFixtures';
+
+/**
+ * Test-scoped authentication fixtures
+ */
+type AuthFixtures = {
+  loginAs: (role: UserRole) => Promise<Page>;
+};
+
+/**
+ * Worker-scoped authentication fixtures
+ */
+type AuthWorkerFixtures = {
+  sessionManager: SessionManager;
+};
+
+/**
+ * Apply a cached storageState to the test's own context, so page object
+ * fixtures built on `page` are authenticated too
+ */
+async function applyStorageState(
+  context: BrowserContext,
+  state: StorageState
+): Promise<void> {
+  await context.addCookies(state.cookies);
+  if (state.origins.length > 0) {
+    await context.addInitScript(origins => {
+      const current = origins.find(o => o.origin === window.location.origin);
+      for (const { name, value } of current?.localStorage ?? []) {
+        window.localStorage.setItem(name, value);
+      }
+    }, state.origins);
+  }
+}
+
+/**
+ * Test extended with role-based authentication
+ * Usage: const page = await loginAs('posUser');
+ */
+export const test = base.extend<AuthFixtures, AuthWorkerFixtures>({
+  /**
+   * SessionManager fixture
+   * Shared by every test in the worker; sessions are cached on disk
+   */
+  sessionManager: [
+    async ({ environment }, use) => {
+      await use(new SessionManager(environment));
+    },
+    { scope: 'worker' },
+  ],
+
+  /**
+   * loginAs fixture
+   * Signs the test's page in as a role, re-authenticating once when the
+   * cached session turns out to be rejected by the application
+   */
+  loginAs: async (
+    { browser, context, page, environment, sessionManager },
+    use
+  ) => {
+    await use(async (role: UserRole) => {
+      const { app } = USER_ROLES[role];
+      const loginPage = new LoginPage(page, environment, app);
+
+      await sessionManager.ensureSession(browser, role);
+      await applyStorageState(context, sessionManager.loadStorageState(role));
+      await page.goto(environment.baseUrl(app));
+
+      if (await loginPage.isRequired()) {
+        await context.clearCookies();
+        sessionManager.invalidate(role);
+        await sessionManager.authenticate(browser, role);
+        await applyStorageState(context, sessionManager.loadStorageState(role));
+        await page.goto(environment.baseUrl(app));
+      }
+      return page;
+    });
+  },
+});
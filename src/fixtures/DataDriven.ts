@@ -0,0 +1,132 @@
+import { TestInfo, TestType } from '@playwright/test';
+import { EnvironmentConfig } from '../config/EnvironmentConfig';
+import { TestDataLoader } from '../data/TestDataLoader';
+import { AllureHelper } from '../utils/AllureHelper';
+import { test } from './PageFixtures';
+
+type TestArgs = typeof test extends TestType<infer T, infer W> ? T & W : never;
+
+/**
+ * A data row; `tags` may be an array or a comma-separated string
+ */
+export type DataRow = Record<string, unknown> & { tags?: string | string[] };
+
+export interface DataDrivenOptions<Row extends DataRow> {
+  /**
+   * Title of each generated test: a template with `{column}` placeholders,
+   * or a function. Defaults to `<name> #<row number>`.
+   */
+  title?: string | ((row: Row, index: number) => string);
+  /**
+   * Only generate tests for rows with at least one of these tags. The
+   * DATA_TAGS variable (comma-separated) overrides this at run time.
+   */
+  tags?: string[];
+}
+
+/**
+ * Generate one test per row of a data file, using the PageFixtures test.
+ * `source` is a data file name resolved per environment by TestDataLoader
+ * (`src/data/files/<TEST_ENV>/<name>.<json|csv|yaml>`), or a path with an
+ * extension. Each row is recorded as Allure parameters and its tags become
+ * Playwright tags, so `--grep @smoke` works as well.
+ *
+ * Usage:
+ *   testEach('posts', { title: 'post {id} has a title' }, async ({ jsonPlaceholderClient, row }) => {
+ *     ...
+ *   });
+ */
+export function testEach<Row extends DataRow>(
+  source: string,
+  options: DataDrivenOptions<Row>,
+  body: (args: TestArgs & { row: Row }, testInfo: TestInfo) => Promise<void>
+): void {
+  const rows = loadRows<Row>(source);
+  const requestedTags = tagsFromEnvironment() ?? options.tags;
+  const titles = new Set<string>();
+
+  rows.forEach((row, index) => {
+    const tags = rowTags(row);
+    if (requestedTags?.length && !tags.some(t => requestedTags.includes(t))) {
+      return;
+    }
+
+    let title = rowTitle(source, row, index, options.title);
+    if (titles.has(title)) {
+      // Playwright rejects duplicate titles in one scope
+      title = `${title} (#${index + 1})`;
+    }
+    titles.add(title);
+
+    test(
+      title,
+      { tag: tags.map(tag => (tag.startsWith('@') ? tag : `@${tag}`)) },
+      async (args, testInfo) => {
+        for (const [column, value] of Object.entries(row)) {
+          if (column !== 'tags') {
+            await AllureHelper.addParameter(column, formatValue(value));
+          }
+        }
+        await body({ ...(args as TestArgs), row }, testInfo);
+      }
+    );
+  });
+}
+
+function loadRows<Row extends DataRow>(source: string): Row[] {
+  const rows = /\.(json|csv|ya?ml)$/i.test(source)
+    ? TestDataLoader.readFile<unknown>(source)
+    : new TestDataLoader(EnvironmentConfig.load().name).load<unknown>(source);
+
+  if (
+    !Array.isArray(rows) ||
+    rows.some(row => row === null || typeof row !== 'object')
+  ) {
+    throw new Error(`Test data "${source}" must be a list of rows`);
+  }
+  return rows as Row[];
+}
+
+function tagsFromEnvironment(): string[] | undefined {
+  const value = process.env.DATA_TAGS;
+  return value ? splitTags(value) : undefined;
+}
+
+function rowTags(row: DataRow): string[] {
+  const { tags } = row;
+  if (Array.isArray(tags)) {
+    return splitTags(tags.join(','));
+  }
+  return typeof tags === 'string' ? splitTags(tags) : [];
+}
+
+function splitTags(value: string): string[] {
+  return value
+    .split(',')
+    .map(tag => tag.trim().replace(/^@/, ''))
+    .filter(Boolean);
+}
+
+function rowTitle<Row extends DataRow>(
+  source: string,
+  row: Row,
+  index: number,
+  title: DataDrivenOptions<Row>['title']
+): string {
+  if (typeof title === 'function') {
+    return title(row, index);
+  }
+  if (title) {
+    return title.replace(/\{(\w+)\}/g, (placeholder, column: string) =>
+      column in row ? formatValue(row[column]) : placeholder
+    );
+  }
+  return `${source} #${index + 1}`;
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
@@ -0,0 +1,73 @@
+import { FakeData } from '../data/FakeData';
+import { TestDataLoader } from '../data/TestDataLoader';
+import { TestDataRegistry } from '../data/TestDataRegistry';
+import { AllureHelper } from '../utils/AllureHelper';
+import { test as base } from './EnvironmentFixtures';
+
+/**
+ * Test data fixtures
+ */
+type DataFixtures = {
+  fake: FakeData;
+  testData: TestDataRegistry;
+  dataFiles: TestDataLoader;
+};
+
+/**
+ * Read the TEST_DATA_SEED override used to replay a recorded run
+ */
+function requestedSeed(): number | undefined {
+  const value = process.env.TEST_DATA_SEED;
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  const seed = Number(value);
+  if (!Number.isInteger(seed) || seed < 0) {
+    throw new Error(
+      `TEST_DATA_SEED must be a non-negative integer, got "${value}"`
+    );
+  }
+  return seed;
+}
+
+/**
+ * Test extended with seeded fake data, data files and entity cleanup
+ * Usage: const post = postFactory.using(fake).build();
+ */
+export const test = base.extend<DataFixtures>({
+  /**
+   * fake fixture
+   * Seeded from TEST_DATA_SEED or randomly; the seed is recorded as an
+   * annotation and an Allure parameter so a failure can be replayed
+   */
+  // eslint-disable-next-line no-empty-pattern
+  fake: async ({}, use, testInfo) => {
+    const fake = new FakeData(requestedSeed());
+    testInfo.annotations.push({
+      type: 'test data seed',
+      description: String(fake.seed),
+    });
+    await AllureHelper.addParameter('Test data seed', String(fake.seed));
+    await use(fake);
+  },
+
+  /**
+   * testData fixture
+   * Deletes every registered entity at teardown, whether the test passed
+   * or failed
+   */
+  // eslint-disable-next-line no-empty-pattern
+  testData: async ({}, use) => {
+    const testData = new TestDataRegistry();
+    await use(testData);
+    await testData.cleanup();
+  },
+
+  /**
+   * dataFiles fixture
+   * Loads JSON, CSV and YAML files from src/data/files for the current environment
+   */
+  dataFiles: async ({ environment }, use) => {
+    await use(new TestDataLoader(environment.name));
+  },
+});
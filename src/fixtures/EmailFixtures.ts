@@ -0,0 +1,63 @@
+import { test as base } from '@playwright/test';
+import { Inbox } from '../email/Inbox';
+import { SmtpCaptureServer } from '../email/SmtpCaptureServer';
+
+/**
+ * Email fixtures
+ */
+type EmailFixtures = {
+  inbox: Inbox;
+};
+
+type EmailWorkerFixtures = {
+  smtpServer: SmtpCaptureServer;
+};
+
+/**
+ * Read the SMTP_CAPTURE_PORT base port; unset picks a free port per worker
+ */
+function basePort(): number {
+  const value = process.env.SMTP_CAPTURE_PORT;
+  if (value === undefined || value === '') {
+    return 0;
+  }
+  const port = Number(value);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`SMTP_CAPTURE_PORT must be a port number, got "${value}"`);
+  }
+  return port;
+}
+
+/**
+ * Test extended with a capturing SMTP server and a per-test inbox
+ * Usage: const message = await inbox.waitForMessage({ to, subject: 'Verify' });
+ */
+export const test = base.extend<EmailFixtures, EmailWorkerFixtures>({
+  /**
+   * smtpServer fixture
+   * Started once per worker on SMTP_CAPTURE_PORT plus the worker's parallel
+   * index, so each worker listens on its own port
+   */
+  smtpServer: [
+    // eslint-disable-next-line no-empty-pattern
+    async ({}, use, workerInfo) => {
+      const port = basePort();
+      const server = new SmtpCaptureServer(
+        process.env.SMTP_CAPTURE_HOST || '127.0.0.1'
+      );
+      await server.start(port ? port + workerInfo.parallelIndex : 0);
+      await use(server);
+      await server.stop();
+    },
+    { scope: 'worker' },
+  ],
+
+  /**
+   * inbox fixture
+   * Addresses are unique to the test and its retry, so messages from other
+   * tests or earlier attempts are never matched
+   */
+  inbox: async ({ smtpServer }, use, testInfo) => {
+    await use(new Inbox(smtpServer, `${testInfo.testId}-r${testInfo.retry}`));
+  },
+});
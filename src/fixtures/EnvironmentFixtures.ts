@@ -0,0 +1,27 @@
+import { test as base } from '@playwright/test';
+import { EnvironmentConfig } from '../config/EnvironmentConfig';
+
+/**
+ * Worker-scoped fixtures exposing the selected test environment
+ */
+type EnvironmentFixtures = {
+  environment: EnvironmentConfig;
+};
+
+/**
+ * Test extended with the validated environment configuration
+ * Page objects receive base URLs and credentials through this fixture
+ */
+export const test = base.extend<object, EnvironmentFixtures>({
+  /**
+   * Environment fixture
+   * Loaded once per worker; fails fast on missing or invalid keys
+   */
+  environment: [
+    // eslint-disable-next-line no-empty-pattern
+    async ({}, use) => {
+      await use(EnvironmentConfig.load());
+    },
+    { scope: 'worker' },
+  ],
+});
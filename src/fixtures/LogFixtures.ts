@@ -0,0 +1,73 @@
+import { test as base } from '@playwright/test';
+import { AllureHelper } from '../utils/AllureHelper';
+import { Logger, TestFileTransport, TextFormatter } from '../utils/Logger';
+
+// Attribute Logger entries to the test running in this worker
+Logger.setTestIdResolver(() => {
+  try {
+    return base.info().testId;
+  } catch (_error) {
+    // Not inside a test (e.g. worker-scoped fixtures)
+    return undefined;
+  }
+});
+
+/**
+ * Per-test logging fixtures
+ */
+type LogFixtures = {
+  logAttachment: 'off' | 'on' | 'only-on-failure';
+  testLog: string;
+};
+
+/**
+ * Test extended with a log file per test
+ * Every Logger entry written while the test runs is stamped with its test id,
+ * written to `test.log` in the test's output directory and attached to the
+ * Allure and HTML reports at teardown
+ */
+export const test = base.extend<LogFixtures>({
+  /**
+   * Log attachment option
+   * Override with `test.use({ logAttachment: 'only-on-failure' })`
+   */
+  logAttachment: ['on', { option: true }],
+
+  /**
+   * testLog fixture
+   * Runs automatically for every test; the value is the test's log file path
+   */
+  testLog: [
+    async ({ logAttachment }, use, testInfo) => {
+      const transport = new TestFileTransport(
+        testInfo.testId,
+        testInfo.outputPath('test.log'),
+        Logger.createFileFormatter()
+      );
+      Logger.addTransport(transport);
+      try {
+        await use(transport.filePath);
+      } finally {
+        Logger.removeTransport(transport);
+      }
+
+      const failed = testInfo.status !== testInfo.expectedStatus;
+      const entries = Logger.getTestLogs(testInfo.testId);
+      Logger.clearTestLogs(testInfo.testId);
+      if (
+        entries.length === 0 ||
+        logAttachment === 'off' ||
+        (logAttachment === 'only-on-failure' && !failed)
+      ) {
+        return;
+      }
+
+      const formatter = new TextFormatter();
+      await AllureHelper.attachText(
+        'Test Logs',
+        entries.map(entry => formatter.format(entry)).join('\n')
+      );
+    },
+    { auto: true },
+  ],
+});
@@ -0,0 +1,135 @@
+import * as fs from 'fs';
+import { AllureHelper } from '../utils/AllureHelper';
+import { Logger } from '../utils/Logger';
+import { NetworkMock } from '../utils/NetworkMock';
+import { test as base } from './EnvironmentFixtures';
+
+/**
+ * HAR recording settings, overridable per project, file or describe block
+ * with `test.use({ harRecording: { ... } })`
+ */
+export interface HarRecordingOptions {
+  /** 'on' attaches every HAR, 'retain-on-failure' only failed tests' */
+  mode: 'off' | 'on' | 'retain-on-failure';
+  /** Glob or RegExp limiting which requests are recorded */
+  urlFilter?: string | RegExp;
+  /** Replace request and response bodies with a placeholder */
+  redactBodies?: boolean;
+}
+
+/**
+ * Network fixtures
+ */
+type NetworkFixtures = {
+  harRecording: HarRecordingOptions;
+  mockNetwork: NetworkMock;
+};
+
+const HAR_FILE_NAME = 'network.har';
+const REDACTED = '[REDACTED]';
+
+interface HarEntry {
+  request: { postData?: { text?: string } };
+  response: { content: { text?: string; encoding?: string } };
+}
+
+/**
+ * Rewrite a HAR file in place with every body replaced by a placeholder
+ */
+function redactHarBodies(harPath: string): void {
+  const har = JSON.parse(fs.readFileSync(harPath, 'utf-8')) as {
+    log: { entries: HarEntry[] };
+  };
+  for (const entry of har.log.entries) {
+    if (entry.request.postData?.text) {
+      entry.request.postData.text = REDACTED;
+    }
+    if (entry.response.content.text) {
+      entry.response.content.text = REDACTED;
+      delete entry.response.content.encoding;
+    }
+  }
+  fs.writeFileSync(harPath, JSON.stringify(har, null, 2));
+}
+
+/**
+ * Test extended with per-test HAR recording and network mocking
+ * Usage: await mockNetwork.useScenario('wikipedia-navigation');
+ */
+export const test = base.extend<NetworkFixtures>({
+  /**
+   * HAR recording option
+   * Records every test, keeping the HAR only when the test fails
+   */
+  harRecording: [{ mode: 'retain-on-failure' }, { option: true }],
+
+  /**
+   * Context options override
+   * Adds recordHar to the test's browser context when recording is enabled
+   */
+  contextOptions: async ({ contextOptions, harRecording }, use, testInfo) => {
+    if (harRecording.mode === 'off') {
+      await use(contextOptions);
+      return;
+    }
+    await use({
+      ...contextOptions,
+      recordHar: {
+        path: testInfo.outputPath(HAR_FILE_NAME),
+        urlFilter: harRecording.urlFilter,
+        content: 'embed',
+      },
+    });
+  },
+
+  /**
+   * Context override
+   * Closes the context after the test so it flushes its HAR, then attaches
+   * the HAR to Allure and the HTML report. Tests without a browser context
+   * never record one.
+   */
+  context: async ({ context, harRecording }, use, testInfo) => {
+    await use(context);
+    if (harRecording.mode === 'off') {
+      return;
+    }
+
+    // Closing twice is a no-op, so Playwright's own teardown still runs
+    await context.close();
+    const harPath = testInfo.outputPath(HAR_FILE_NAME);
+    if (!fs.existsSync(harPath)) {
+      return;
+    }
+
+    const failed = testInfo.status !== testInfo.expectedStatus;
+    if (harRecording.mode === 'retain-on-failure' && !failed) {
+      fs.unlinkSync(harPath);
+      return;
+    }
+
+    if (harRecording.redactBodies) {
+      try {
+        redactHarBodies(harPath);
+      } catch (error) {
+        // Never attach unredacted bodies when redaction was requested
+        Logger.for('NetworkFixtures').warn('Failed to redact HAR', {
+          error,
+        });
+        fs.unlinkSync(harPath);
+        return;
+      }
+    }
+    await AllureHelper.attachHAR(harPath);
+  },
+
+  /**
+   * mockNetwork fixture
+   * Serves the page from scenario stubs and HAR files according to
+   * NETWORK_MODE, writing newly recorded requests back at teardown
+   */
+  mockNetwork: async ({ page, environment }, use) => {
+    const mockNetwork = new NetworkMock(page, environment.networkMode);
+    await use(mockNetwork);
+    await mockNetwork.flush();
+  },
+});
@@ -0,0 +1,54 @@
+import { test as base } from '@playwright/test';
+import { KNOWN_OVERLAYS, OverlayDefinition } from '../overlays/KnownOverlays';
+import {
+  OVERLAY_ATTACHMENT_NAME,
+  OverlayGuard,
+} from '../overlays/OverlayGuard';
+import { AllureHelper } from '../utils/AllureHelper';
+
+/**
+ * Overlay fixtures
+ */
+type OverlayFixtures = {
+  overlays: OverlayDefinition[];
+  overlayGuard: OverlayGuard;
+};
+
+/**
+ * Test extended with automatic dismissal of cookie banners, consent
+ * iframes, surveys and maintenance notices
+ * Usage: test.use({ overlays: [...KNOWN_OVERLAYS, myBanner] });
+ */
+export const test = base.extend<OverlayFixtures>({
+  /**
+   * Overlays option
+   * The known overlays by default; an empty list turns dismissal off
+   */
+  overlays: [KNOWN_OVERLAYS, { option: true }],
+
+  /**
+   * Page fixture override
+   * Installs the overlay handlers and attaches the dismissal counts, which
+   * PlaywrightTestListener adds to the execution report
+   */
+  page: async ({ page, overlays }, use) => {
+    const guard = new OverlayGuard(page, overlays);
+    if (overlays.length > 0) {
+      await guard.install();
+    }
+    await use(page);
+
+    const dismissals = guard.dismissals();
+    if (dismissals.length > 0) {
+      await AllureHelper.attachJson(OVERLAY_ATTACHMENT_NAME, dismissals);
+    }
+  },
+
+  /**
+   * overlayGuard fixture
+   * The page's guard, for dismissing overlays on demand
+   */
+  overlayGuard: async ({ page }, use) => {
+    await use(OverlayGuard.for(page));
+  },
+});
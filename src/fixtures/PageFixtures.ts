@@ -1,7 +1,28 @@
-import { test as base } from '@playwright/test';
+import { mergeTests } from '@playwright/test';
 import { WikimediaCommonsPage } from '../pages/wikipedia/WikimediaCommonsPage';
 import { WikipediaHomePage } from '../pages/wikipedia/WikipediaHomePage';
 import { Logger, LogLevel } from '../utils/Logger';
+import { test as apiTest } from './ApiFixtures';
+import { test as authTest } from './AuthFixtures';
+import { test as dataTest } from './DataFixtures';
+import { test as emailTest } from './EmailFixtures';
+import { test as logTest } from './LogFixtures';
+import { test as networkTest } from './NetworkFixtures';
+import { test as overlayTest } from './OverlayFixtures';
+import { test as performanceTest } from './PerformanceFixtures';
+import { test as quarantineTest } from './QuarantineFixtures';
+
+const base = mergeTests(
+  logTest,
+  quarantineTest,
+  authTest,
+  networkTest,
+  performanceTest,
+  overlayTest,
+  apiTest,
+  dataTest,
+  emailTest
+);
 
 // Configure Logger for E2E tests
 Logger.configure({
@@ -26,13 +47,12 @@ type PageFixtures = {
  * Usage: import { test, expect } from './fixtures/pageFixtures';
  */
 export const test = base.extend<PageFixtures>({
-
   /**
    * WikipediaHomePage fixture
    * Automatically creates a new WikipediaHomePage instance for each test
    */
-  wikipediaHomePage: async ({ page }, use) => {
-    const wikipediaHomePage = new WikipediaHomePage(page);
+  wikipediaHomePage: async ({ page, environment }, use) => {
+    const wikipediaHomePage = new WikipediaHomePage(page, environment);
     await use(wikipediaHomePage);
   },
 
@@ -40,8 +60,8 @@ export const test = base.extend<PageFixtures>({
    * WikimediaCommonsPage fixture
    * Automatically creates a new WikimediaCommonsPage instance for each test
    */
-  wikimediaCommonsPage: async ({ page }, use) => {
-    const wikimediaCommonsPage = new WikimediaCommonsPage(page);
+  wikimediaCommonsPage: async ({ page, environment }, use) => {
+    const wikimediaCommonsPage = new WikimediaCommonsPage(page, environment);
     await use(wikimediaCommonsPage);
   },
 });
@@ -0,0 +1,19 @@
+import { test as base } from '@playwright/test';
+import { PerformanceCapture } from '../performance/PerformanceCapture';
+
+/**
+ * Test extended with performance observers in every page
+ * Long tasks and largest contentful paint can only be observed from the
+ * start of a navigation, so the observers are installed before the test
+ * navigates anywhere
+ */
+export const test = base.extend({
+  /**
+   * Page fixture override
+   * Installs the performance observers used by BasePage.capturePerformance
+   */
+  page: async ({ page }, use) => {
+    await PerformanceCapture.install(page);
+    await use(page);
+  },
+});
@@ -0,0 +1,59 @@
+import { test as base } from '@playwright/test';
+import { AllureHelper } from '../utils/AllureHelper';
+import { Quarantine } from '../utils/Quarantine';
+import { buildTestId } from '../utils/TestIdentity';
+
+/**
+ * Quarantine fixtures
+ */
+type QuarantineFixtures = {
+  quarantineTag: void;
+};
+
+type QuarantineWorkerFixtures = {
+  quarantine: Quarantine;
+};
+
+/**
+ * Test extended with quarantine tagging
+ * Quarantined tests (see src/config/quarantine.json) still run, are tagged
+ * in the HTML and Allure reports, and PlaywrightTestListener stops their
+ * failures from failing the build
+ */
+export const test = base.extend<QuarantineFixtures, QuarantineWorkerFixtures>({
+  /**
+   * quarantine fixture
+   * Loads the quarantine list once per worker
+   */
+  quarantine: [
+    // eslint-disable-next-line no-empty-pattern
+    async ({}, use) => {
+      await use(Quarantine.load());
+    },
+    { scope: 'worker' },
+  ],
+
+  /**
+   * quarantineTag fixture
+   * Runs automatically and tags the test when it is quarantined
+   */
+  quarantineTag: [
+    async ({ quarantine }, use, testInfo) => {
+      const [file, ...titles] = testInfo.titlePath;
+      const entry = quarantine.find(
+        buildTestId(testInfo.project.name, file, titles)
+      );
+      if (entry) {
+        testInfo.annotations.push({
+          type: 'quarantine',
+          description: entry.ticket
+            ? `${entry.reason} (${entry.ticket})`
+            : entry.reason,
+        });
+        await AllureHelper.addTestMetadata({ tags: ['quarantined'] });
+      }
+      await use();
+    },
+    { auto: true },
+  ],
+});
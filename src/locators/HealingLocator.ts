@@ -0,0 +1,236 @@
+import { Locator, Page } from '@playwright/test';
+import { AllureHelper } from '../utils/AllureHelper';
+import { Logger } from '../utils/Logger';
+
+/**
+ * Kinds of strategy, in the order they are usually most stable
+ */
+export type StrategyKind = 'testId' | 'role' | 'label' | 'text' | 'css';
+
+type Scope = Page | Locator;
+type Role = Parameters<Page['getByRole']>[0];
+
+/**
+ * One way of finding an element
+ */
+export interface LocatorStrategy {
+  kind: StrategyKind;
+  description: string;
+  build(scope: Scope): Locator;
+}
+
+/**
+ * A lookup that only matched through a fallback strategy. Attached to the
+ * test and collected into the healed locators report by
+ * PlaywrightTestListener.
+ */
+export interface HealedLocator {
+  /** Page object or component class declaring the locator */
+  owner: string;
+  locator: string;
+  primary: string;
+  healedWith: string;
+  strategy: StrategyKind;
+  /** Position of the matching strategy, 0 being the primary */
+  rank: number;
+  url: string;
+}
+
+export const HEALED_LOCATOR_ATTACHMENT_PREFIX = 'Healed locator: ';
+
+/**
+ * Factories for the strategies a HealingLocator tries
+ * Usage: By.role('link', { name: 'Commons' })
+ */
+export const By = {
+  testId(testId: string): LocatorStrategy {
+    return {
+      kind: 'testId',
+      description: `test id "${testId}"`,
+      build: scope => scope.getByTestId(testId),
+    };
+  },
+
+  role(
+    role: Role,
+    options: { name?: string | RegExp; exact?: boolean } = {}
+  ): LocatorStrategy {
+    return {
+      kind: 'role',
+      description: options.name
+        ? `role ${role} named ${options.name}`
+        : `role ${role}`,
+      build: scope => scope.getByRole(role, options),
+    };
+  },
+
+  label(label: string | RegExp, exact?: boolean): LocatorStrategy {
+    return {
+      kind: 'label',
+      description: `label ${label}`,
+      build: scope => scope.getByLabel(label, { exact }),
+    };
+  },
+
+  text(text: string | RegExp, exact?: boolean): LocatorStrategy {
+    return {
+      kind: 'text',
+      description: `text ${text}`,
+      build: scope => scope.getByText(text, { exact }),
+    };
+  },
+
+  css(selector: string): LocatorStrategy {
+    return {
+      kind: 'css',
+      description: `css ${selector}`,
+      build: scope => scope.locator(selector),
+    };
+  },
+};
+
+/**
+ * A locator with ranked alternatives. The first strategy is the primary
+ * one; when only a later strategy matches, the element is still found and
+ * the fallback is logged and reported so the page object can be updated.
+ */
+export class HealingLocator {
+  static readonly DEFAULT_TIMEOUT = 5000;
+  // How long the primary strategy may lag behind a fallback
+  private static readonly PRIMARY_GRACE_PERIOD = 500;
+
+  readonly name: string;
+  readonly strategies: LocatorStrategy[];
+  private readonly scope: Scope;
+  private readonly owner: string;
+  private readonly reported: Set<number> = new Set();
+  private healedRank?: number;
+  private logger: Logger;
+
+  /**
+   * @param owner - class declaring the locator, shown in the report
+   */
+  constructor(
+    scope: Scope,
+    name: string,
+    strategies: LocatorStrategy[],
+    owner: string = 'unknown'
+  ) {
+    if (strategies.length === 0) {
+      throw new Error(`HealingLocator "${name}" needs at least one strategy`);
+    }
+    this.scope = scope;
+    this.name = name;
+    this.strategies = strategies;
+    this.owner = owner;
+    this.logger = Logger.for(owner);
+  }
+
+  /**
+   * Wait for any strategy to find a visible element and return the first
+   * element of the highest-ranked match
+   * @throws listing every strategy tried when none matches in time
+   */
+  async resolve(
+    timeout: number = HealingLocator.DEFAULT_TIMEOUT
+  ): Promise<Locator> {
+    const candidates = this.strategies.map(strategy =>
+      strategy.build(this.scope)
+    );
+    const any = candidates.reduce((combined, next) => combined.or(next));
+
+    try {
+      await any.first().waitFor({ state: 'visible', timeout });
+    } catch {
+      throw new Error(
+        `No strategy found "${this.name}" in ${this.owner} within ${timeout}ms. Tried: ${this.strategies
+          .map(strategy => strategy.description)
+          .join('; ')}`
+      );
+    }
+
+    for (const [rank, candidate] of candidates.entries()) {
+      if (await candidate.first().isVisible()) {
+        if (rank > 0 && rank !== this.healedRank) {
+          // A fallback can render just before the primary; only report a
+          // heal when the primary is still missing after a grace period.
+          // Once healed, later lookups skip the wait.
+          if (await this.primaryAppears(candidates[0])) {
+            return candidates[0].first();
+          }
+          await this.reportHealed(rank);
+        }
+        this.healedRank = rank > 0 ? rank : undefined;
+        // Fallbacks are often broader than the primary and match several
+        // elements, which would fail the caller's action in strict mode
+        return candidate.first();
+      }
+    }
+    // The element disappeared between the wait and the checks; let the
+    // caller's action wait on whichever strategy matches first
+    return any.first();
+  }
+
+  /**
+   * Click the resolved element
+   */
+  async click(timeout?: number): Promise<void> {
+    await (await this.resolve(timeout)).click();
+  }
+
+  /**
+   * Fill the resolved element
+   */
+  async fill(value: string, timeout?: number): Promise<void> {
+    await (await this.resolve(timeout)).fill(value);
+  }
+
+  /**
+   * Whether any strategy currently finds a visible element, without waiting
+   */
+  async isVisible(): Promise<boolean> {
+    for (const strategy of this.strategies) {
+      if (await strategy.build(this.scope).first().isVisible()) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  private async primaryAppears(primary: Locator): Promise<boolean> {
+    try {
+      await primary.first().waitFor({
+        state: 'visible',
+        timeout: HealingLocator.PRIMARY_GRACE_PERIOD,
+      });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private async reportHealed(rank: number): Promise<void> {
+    if (this.reported.has(rank)) {
+      return;
+    }
+    this.reported.add(rank);
+
+    const page = 'goto' in this.scope ? this.scope : this.scope.page();
+    const healed: HealedLocator = {
+      owner: this.owner,
+      locator: this.name,
+      primary: this.strategies[0].description,
+      healedWith: this.strategies[rank].description,
+      strategy: this.strategies[rank].kind,
+      rank,
+      url: page.url(),
+    };
+    this.logger.warn(
+      `🩹 Locator "${this.name}" healed: ${healed.primary} found nothing, matched ${healed.healedWith}`
+    );
+    await AllureHelper.attachJson(
+      `${HEALED_LOCATOR_ATTACHMENT_PREFIX}${this.owner}.${this.name}`,
+      healed
+    );
+  }
+}
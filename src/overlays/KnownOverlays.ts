@@ -0,0 +1,92 @@
+import { Locator, Page } from '@playwright/test';
+
+/**
+ * Kinds of overlay that can cover the page mid-test
+ */
+export type OverlayKind =
+  'cookie-banner' | 'consent-iframe' | 'survey' | 'maintenance' | 'other';
+
+/**
+ * An overlay the framework dismisses whenever it appears
+ */
+export interface OverlayDefinition {
+  name: string;
+  kind: OverlayKind;
+  /**
+   * Hosts the overlay appears on, subdomains included; all sites when
+   * omitted
+   */
+  sites?: string[];
+  /** The visible part of the overlay that triggers the handler */
+  locator(page: Page): Locator;
+  /**
+   * Close the overlay; clicks the trigger locator when omitted
+   */
+  dismiss?(overlay: Locator, page: Page): Promise<void>;
+}
+
+const ACCEPT_NAME =
+  /^(accept|accept all|accept all cookies|accept cookies|agree|i agree|allow all|allow all cookies|got it)$/i;
+const CLOSE_NAME = /^(close|dismiss|no,? thanks|not now|maybe later|×|✕)$/i;
+
+/**
+ * Overlays dismissed in every test unless the `overlays` option replaces
+ * them. Generic entries only match inside containers that look like the
+ * overlay, so ordinary buttons named "Accept" are never clicked.
+ */
+export const KNOWN_OVERLAYS: OverlayDefinition[] = [
+  {
+    name: 'Cookie banner',
+    kind: 'cookie-banner',
+    locator: page =>
+      page
+        .locator(
+          '[id*="cookie" i], [class*="cookie" i], [id*="consent" i], [class*="consent" i], [aria-label*="cookie" i]'
+        )
+        .getByRole('button', { name: ACCEPT_NAME })
+        .first(),
+  },
+  {
+    name: 'Consent management iframe',
+    kind: 'consent-iframe',
+    locator: page =>
+      page
+        .locator(
+          'iframe[id^="sp_message_iframe"], iframe[title*="consent" i], iframe[title*="privacy" i]'
+        )
+        .first()
+        .contentFrame()
+        .getByRole('button', { name: ACCEPT_NAME })
+        .first(),
+  },
+  {
+    name: 'Survey popup',
+    kind: 'survey',
+    locator: page =>
+      page
+        .getByRole('dialog')
+        .filter({ hasText: /survey|feedback/i })
+        .getByRole('button', { name: CLOSE_NAME })
+        .first(),
+  },
+  {
+    name: 'Maintenance notice',
+    kind: 'maintenance',
+    locator: page =>
+      page
+        .locator('[role="alert"], [role="dialog"], [role="alertdialog"]')
+        .filter({ hasText: /maintenance|scheduled downtime/i })
+        .getByRole('button', { name: CLOSE_NAME })
+        .first(),
+  },
+  {
+    name: 'Wikipedia fundraising banner',
+    kind: 'other',
+    sites: ['wikipedia.org', 'wikimedia.org'],
+    locator: page =>
+      page
+        .locator('#centralNotice, #frb-inline, .frb')
+        .getByRole('button', { name: /close|dismiss|×/i })
+        .first(),
+  },
+];
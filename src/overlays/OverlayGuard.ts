@@ -0,0 +1,145 @@
+import { Locator, Page } from '@playwright/test';
+import { Logger } from '../utils/Logger';
+import {
+  KNOWN_OVERLAYS,
+  OverlayDefinition,
+  OverlayKind,
+} from './KnownOverlays';
+
+/**
+ * Dismissals of one overlay during a test
+ */
+export interface OverlayDismissal {
+  name: string;
+  kind: OverlayKind;
+  count: number;
+}
+
+export const OVERLAY_ATTACHMENT_NAME = 'Overlays dismissed';
+
+/**
+ * Keeps a page clear of known overlays. Once installed, Playwright runs the
+ * matching handler whenever an overlay would block an action, so a banner
+ * that appears mid-test no longer fails it. Every dismissal is logged and
+ * counted.
+ */
+export class OverlayGuard {
+  private static readonly guards: WeakMap<Page, OverlayGuard> = new WeakMap();
+  private static readonly HIDE_TIMEOUT = 5000;
+
+  readonly page: Page;
+  private readonly overlays: OverlayDefinition[];
+  private readonly dismissed: Map<string, OverlayDismissal> = new Map();
+  private installed = false;
+  private logger: Logger;
+
+  constructor(page: Page, overlays: OverlayDefinition[] = KNOWN_OVERLAYS) {
+    this.page = page;
+    this.overlays = overlays;
+    this.logger = Logger.for('OverlayGuard');
+    OverlayGuard.guards.set(page, this);
+  }
+
+  /**
+   * The guard of a page, or an uninstalled one with the known overlays
+   */
+  static for(page: Page): OverlayGuard {
+    return OverlayGuard.guards.get(page) ?? new OverlayGuard(page);
+  }
+
+  /**
+   * Register a locator handler for every overlay
+   */
+  async install(): Promise<void> {
+    if (this.installed) {
+      return;
+    }
+    for (const overlay of this.overlays) {
+      await this.page.addLocatorHandler(
+        overlay.locator(this.page),
+        trigger => this.handle(overlay, trigger),
+        // Overlays for other sites are left alone, so waiting for the
+        // trigger to disappear is done in handle() instead
+        { noWaitAfter: true }
+      );
+    }
+    this.installed = true;
+    this.logger.debug(`Watching for ${this.overlays.length} overlay(s)`);
+  }
+
+  /**
+   * Dismiss overlays that are visible right now, without waiting for them
+   * @param kind - only dismiss overlays of this kind
+   * @returns the number dismissed
+   */
+  async dismissVisible(kind?: OverlayKind): Promise<number> {
+    let count = 0;
+    for (const overlay of this.overlays) {
+      if (kind && overlay.kind !== kind) {
+        continue;
+      }
+      const trigger = overlay.locator(this.page);
+      if (await trigger.isVisible()) {
+        count += (await this.handle(overlay, trigger)) ? 1 : 0;
+      }
+    }
+    return count;
+  }
+
+  /**
+   * Overlays dismissed so far, with how often
+   */
+  dismissals(): OverlayDismissal[] {
+    return Array.from(this.dismissed.values());
+  }
+
+  private async handle(
+    overlay: OverlayDefinition,
+    trigger: Locator
+  ): Promise<boolean> {
+    if (!OverlayGuard.appliesTo(overlay, this.page.url())) {
+      return false;
+    }
+
+    if (overlay.dismiss) {
+      await overlay.dismiss(trigger, this.page);
+    } else {
+      await trigger.click();
+    }
+    try {
+      await trigger.waitFor({
+        state: 'hidden',
+        timeout: OverlayGuard.HIDE_TIMEOUT,
+      });
+    } catch {
+      this.logger.warn(
+        `${overlay.name} still visible ${OverlayGuard.HIDE_TIMEOUT}ms after dismissing it`
+      );
+    }
+
+    const dismissal = this.dismissed.get(overlay.name) ?? {
+      name: overlay.name,
+      kind: overlay.kind,
+      count: 0,
+    };
+    dismissal.count++;
+    this.dismissed.set(overlay.name, dismissal);
+    this.logger.info(`🧹 Dismissed ${overlay.name} on ${this.page.url()}`);
+    return true;
+  }
+
+  private static appliesTo(overlay: OverlayDefinition, url: string): boolean {
+    if (!overlay.sites?.length) {
+      return true;
+    }
+    let host: string;
+    try {
+      host = new URL(url).hostname;
+    } catch {
+      return false;
+    }
+    return overlay.sites.some(
+      site => host === site || host.endsWith(`.${site}`)
+    );
+  }
+}
@@ -1,37 +1,196 @@
-import { Locator, Page } from '@playwright/test';
-import * as dotenv from 'dotenv';
+import { expect, Locator, Page } from '@playwright/test';
+import {
+  AccessibilityAudit,
+  AccessibilityOptions,
+  AccessibilityResult,
+} from '../accessibility/AccessibilityAudit';
+import {
+  PerformanceBudget,
+  PerformanceCapture,
+  PerformanceResult,
+} from '../performance/PerformanceCapture';
+import { EnvironmentConfig } from '../config/EnvironmentConfig';
+import { HealingLocator, LocatorStrategy } from '../locators/HealingLocator';
+import { OverlayGuard } from '../overlays/OverlayGuard';
+import { PageReadiness, ReadyConditions } from '../readiness/PageReadiness';
+import { RequestTracker } from '../readiness/RequestTracker';
+import { NavigateArgs, Route } from './Route';
 import { Logger } from '../utils/Logger';
+import { ActionOptions, PageAction } from '../utils/PageAction';
 
-dotenv.config();
+/**
+ * Options for BasePage.checkVisual. Thresholds default to the
+ * `expect.toHaveScreenshot` settings in playwright.config.ts.
+ */
+export interface VisualCheckOptions {
+  /** Capture this element instead of the page */
+  element?: Locator;
+  /** Capture this page region, in CSS pixels from the top left */
+  region?: { x: number; y: number; width: number; height: number };
+  /** Capture the whole scrollable page; the default without a region */
+  fullPage?: boolean;
+  /** Extra locators to mask, on top of the page's dynamicLocators() */
+  mask?: Locator[];
+  /** Number of differing pixels allowed */
+  maxDiffPixels?: number;
+  /** Share of differing pixels allowed, from 0 to 1 */
+  maxDiffPixelRatio?: number;
+  /** Per-pixel colour difference tolerated, from 0 to 1 */
+  threshold?: number;
+}
 
 /**
- * Base Page Object class containing common methods for all page objects
+ * Base Page Object class containing common methods for all page objects.
+ * Actions (goto, click, fill...) are logged and reported as Allure steps;
+ * decorate subclass methods with `@action()` to report them the same way.
  */
-export class BasePage {
+export class BasePage<R extends Route = Route> {
   readonly page: Page;
+  protected readonly environment: EnvironmentConfig;
+  /**
+   * The page's URL; set it in page objects to enable navigate(), isCurrent()
+   * and clickAndExpectPage()
+   */
+  protected readonly route?: R;
   protected logger: Logger;
 
-  constructor(page: Page) {
+  constructor(page: Page, environment: EnvironmentConfig) {
     this.page = page;
+    this.environment = environment;
     this.logger = Logger.for(this.constructor.name);
+    // Start following API traffic before the page object navigates
+    RequestTracker.for(page);
+  }
+
+  /**
+   * Navigate to a URL
+   * @param path - Absolute URL, or path relative to the base URL of the
+   * page's application (Playwright's baseURL for pages without a route)
+   */
+  async goto(path: string = '', options?: ActionOptions): Promise<void> {
+    const url =
+      this.route && !/^[a-z][a-z\d+.-]*:/i.test(path)
+        ? Route.resolve(this.environment.baseUrl(this.route.app), path)
+        : path;
+    await PageAction.run(
+      this,
+      `Go to ${url}`,
+      async () => {
+        await this.page.goto(url);
+      },
+      options
+    );
+  }
+
+  /**
+   * Open the page's route with the given path and query parameters, then
+   * wait until it is ready
+   * Usage: await articlePage.navigate({ title: 'Truck', query: { oldid: 42 } });
+   */
+  async navigate(...[params]: NavigateArgs<R>): Promise<void> {
+    const route = this.requireRoute();
+    const url = route.url(this.environment.baseUrl(route.app), params);
+    await PageAction.run(this, `Navigate to ${url}`, async () => {
+      await this.page.goto(url);
+      await this.waitForReady();
+    });
+  }
+
+  /**
+   * Whether the browser is on this page's route, with any parameter values
+   */
+  isCurrent(): boolean {
+    const route = this.requireRoute();
+    return route.matches(this.page.url(), this.environment.baseUrl(route.app));
+  }
+
+  /**
+   * Click an element that navigates to another page, wait for that page's
+   * route and readiness, and return its page object
+   * Usage: const commons = await home.clickAndExpectPage(link, WikimediaCommonsPage);
+   */
+  async clickAndExpectPage<T extends BasePage>(
+    locator: Locator,
+    TargetPage: new (page: Page, environment: EnvironmentConfig) => T,
+    timeout: number = 30000
+  ): Promise<T> {
+    const target = new TargetPage(this.page, this.environment);
+    return PageAction.run(
+      this,
+      `Click ${PageAction.describe(locator)} and expect ${TargetPage.name}`,
+      async () => {
+        await locator.click();
+        await target.waitUntilCurrent(timeout);
+        await target.waitForReady();
+        return target;
+      }
+    );
   }
 
   /**
-   * Navigate to a specific URL
-   * @param path - Path to navigate to (appended to baseURL)
+   * Wait for the browser to reach this page's route
    */
-  async goto(domain: string = ''): Promise<void> {
-    const url = domain;
-    await this.page.goto(url);
+  protected async waitUntilCurrent(timeout: number = 30000): Promise<void> {
+    const route = this.requireRoute();
+    const baseUrl = this.environment.baseUrl(route.app);
+    await this.page.waitForURL(url => route.matches(url, baseUrl), {
+      timeout,
+    });
+  }
+
+  private requireRoute(): R {
+    if (!this.route) {
+      throw new Error(
+        `${this.constructor.name} declares no route; set its route property`
+      );
+    }
+    return this.route;
   }
 
   /**
-   * Wait for page to be loaded
+   * Wait until the page is ready to use, as declared by readyConditions()
+   * @throws PageNotReadyError listing every condition not met in time
+   */
+  async waitForReady(conditions: ReadyConditions = {}): Promise<void> {
+    await PageReadiness.waitFor(this.page, this.constructor.name, {
+      ...this.readyConditions(),
+      ...conditions,
+    });
+  }
+
+  /**
+   * Wait for page to be loaded, i.e. ready as declared by readyConditions()
    */
   async waitForPageLoad(): Promise<void> {
-    await this.page.waitForLoadState('domcontentloaded');
-    await this.page.waitForLoadState('networkidle');
-    await this.page.waitForLoadState('load');
+    await this.waitForReady();
+  }
+
+  /**
+   * What the page needs before it can be used: key elements visible,
+   * spinners gone, API responses received, no pending requests. Override in
+   * page objects; the default only waits for the DOM content to load.
+   */
+  protected readyConditions(): ReadyConditions {
+    return {};
+  }
+
+  /**
+   * Capture performance metrics of the current navigation, check them
+   * against the page's budget and attach them to Allure. Assert on
+   * `violations` in the test.
+   */
+  async capturePerformance(
+    budget: PerformanceBudget = this.performanceBudget()
+  ): Promise<PerformanceResult> {
+    return PerformanceCapture.capture(this.page, this.constructor.name, budget);
+  }
+
+  /**
+   * Performance budget checked by capturePerformance. Override in page
+   * objects.
+   */
+  protected performanceBudget(): PerformanceBudget {
+    return {};
   }
 
   /**
@@ -58,18 +217,49 @@ export class BasePage {
     return this.page.getByRole(role, options);
   }
 
+  /**
+   * Locator trying each strategy in order, reporting when the first one
+   * no longer matches
+   * Usage: this.healingLocator('saveButton', By.testId('save'), By.role('button', { name: 'Save' }))
+   */
+  protected healingLocator(
+    name: string,
+    ...strategies: LocatorStrategy[]
+  ): HealingLocator {
+    return new HealingLocator(
+      this.page,
+      name,
+      strategies,
+      this.constructor.name
+    );
+  }
+
   /**
    * Click on an element
    */
-  async click(locator: Locator): Promise<void> {
-    await locator.click();
+  async click(locator: Locator, options?: ActionOptions): Promise<void> {
+    await PageAction.run(
+      this,
+      `Click ${PageAction.describe(locator)}`,
+      () => locator.click(),
+      options
+    );
   }
 
   /**
    * Fill input field
    */
-  async fill(locator: Locator, text: string): Promise<void> {
-    await locator.fill(text);
+  async fill(
+    locator: Locator,
+    text: string,
+    options?: ActionOptions
+  ): Promise<void> {
+    await PageAction.run(
+      this,
+      `Fill ${PageAction.describe(locator)} with ${PageAction.describeValue(locator, text)}`,
+      () => locator.fill(text),
+      options
+    );
   }
 
   /**
@@ -86,7 +276,11 @@ export class BasePage {
     locator: Locator,
     timeout: number = 30000
   ): Promise<void> {
-    await locator.waitFor({ state: 'visible', timeout });
+    await PageAction.run(
+      this,
+      `Wait for ${PageAction.describe(locator)} to be visible`,
+      () => locator.waitFor({ state: 'visible', timeout })
+    );
   }
 
   /**
@@ -111,11 +305,66 @@ export class BasePage {
     });
   }
 
+  /**
+   * Compare the page, an element or a region against its baseline image.
+   * Baselines are stored per environment and created on first run; run with
+   * UPDATE_BASELINES=true to replace them. On mismatch the expected, actual
+   * and diff images are attached to the HTML and Allure reports.
+   */
+  async checkVisual(
+    name: string,
+    options: VisualCheckOptions = {}
+  ): Promise<void> {
+    const { element, region, mask = [], ...thresholds } = options;
+    const snapshotName = [this.environment.name, `${name}.png`];
+    const screenshotOptions = {
+      ...thresholds,
+      mask: [...this.dynamicLocators(), ...mask],
+    };
+
+    this.logger.info(`Visual check: ${name}`);
+    if (element) {
+      await expect(element).toHaveScreenshot(snapshotName, screenshotOptions);
+      return;
+    }
+    await expect(this.page).toHaveScreenshot(snapshotName, {
+      ...screenshotOptions,
+      clip: region,
+      fullPage: options.fullPage ?? !region,
+    });
+  }
+
+  /**
+   * Audit the page with axe-core against WCAG A or AA and compare the
+   * result with the page's known-violations baseline. The report is
+   * attached to Allure; assert on `newViolations` in the test.
+   */
+  async checkAccessibility(
+    options: AccessibilityOptions = {}
+  ): Promise<AccessibilityResult> {
+    return AccessibilityAudit.run(this.page, {
+      baseline: this.constructor.name,
+      ...options,
+    });
+  }
+
+  /**
+   * Locators whose content changes between runs (dates, counters, ads),
+   * masked in every visual check. Override in page objects.
+   */
+  protected dynamicLocators(): Locator[] {
+    return [];
+  }
+
   /**
    * Scroll to element
    */
   async scrollToElement(locator: Locator): Promise<void> {
-    await locator.scrollIntoViewIfNeeded();
+    await PageAction.run(
+      this,
+      `Scroll to ${PageAction.describe(locator)}`,
+      () => locator.scrollIntoViewIfNeeded()
+    );
   }
 
   /**
@@ -126,45 +375,54 @@ export class BasePage {
   }
 
   /**
-   * Wait for URL to contain specific text
+   * Wait for URL to contain specific text or match a pattern
    */
-  async waitForUrl(urlPart: string, timeout: number = 30000): Promise<void> {
-    await this.page.waitForURL(`**/*${urlPart}*`, { timeout });
+  async waitForUrl(
+    urlPart: string | RegExp,
+    timeout: number = 30000
+  ): Promise<void> {
+    await this.page.waitForURL(
+      url => {
+        if (typeof urlPart === 'string') {
+          return url.href.includes(urlPart);
+        }
+        // test() continues from lastIndex on g/y patterns
+        urlPart.lastIndex = 0;
+        return urlPart.test(url.href);
+      },
+      { timeout }
+    );
   }
 
   /**
    * Reload the page
    */
   async reload(): Promise<void> {
-    await this.page.reload();
+    await PageAction.run(this, 'Reload the page', async () => {
+      await this.page.reload();
+    });
   }
 
   /**
    * Go back in browser history
    */
   async goBack(): Promise<void> {
-    await this.page.goBack();
+    await PageAction.run(this, 'Go back', async () => {
+      await this.page.goBack();
+    });
   }
 
   /**
-   * Accept cookie consent if present
+   * Accept a cookie or consent banner showing right now. Banners appearing
+   * later are dismissed automatically by the page's overlay handlers.
    */
   async acceptCookies(): Promise<void> {
-    try {
-      const cookieButton = this.page
-        .locator(
-          'button:has-text("Accept"), button:has-text("accept"), button:has-text("Agree")'
-        )
-        .first();
-      if (await cookieButton.isVisible({ timeout: 5000 })) {
-        await cookieButton.click();
-        this.logger.debug('Cookie banner accepted');
-      }
-    } catch (error) {
-      this.logger.debug('Cookie banner not present or already accepted', {
-        error,
-      });
-      // Cookie banner not present, continue
+    const guard = OverlayGuard.for(this.page);
+    const dismissed =
+      (await guard.dismissVisible('cookie-banner')) +
+      (await guard.dismissVisible('consent-iframe'));
+    if (dismissed === 0) {
+      this.logger.debug('No cookie banner showing');
     }
   }
 }
@@ -0,0 +1,158 @@
+import { AppName } from '../config/EnvironmentProfiles';
+
+/**
+ * Query parameters a route accepts; undefined values are left out of URLs
+ */
+export type QueryParams = Record<string, string | number | boolean | undefined>;
+
+/**
+ * Names of the `:param` segments in a path template; a trailing `*` marks a
+ * param that may span several segments
+ */
+export type PathParamNames<Path extends string> =
+  Path extends `${string}:${infer Param}/${infer Rest}`
+    ? ParamName<Param> | PathParamNames<Rest>
+    : Path extends `${string}:${infer Param}`
+      ? ParamName<Param>
+      : never;
+
+type ParamName<Param extends string> = Param extends `${infer Name}*`
+  ? Name
+  : Param;
+
+/**
+ * Values for a route's path segments plus its query, required only when the
+ * query type has required keys
+ */
+export type RouteParams<Path extends string, Query extends QueryParams> = {
+  [Name in PathParamNames<Path>]: string | number;
+} & (object extends Query ? { query?: Query } : { query: Query });
+
+/**
+ * Arguments of BasePage.navigate: the params are optional when the route
+ * needs none
+ */
+export type NavigateArgs<R> =
+  R extends Route<infer Path, infer Query>
+    ? object extends RouteParams<Path, Query>
+      ? [params?: RouteParams<Path, Query>]
+      : [params: RouteParams<Path, Query>]
+    : [];
+
+export interface RouteOptions {
+  /**
+   * Match any URL whose path ends with the route's path, whatever its
+   * origin and base path, e.g. a login page an app may redirect to from
+   * elsewhere (`/auth/login`, an SSO host)
+   */
+  matchSuffix?: boolean;
+}
+
+/**
+ * A page's URL: a path template such as `wiki/:title`, relative to one
+ * application's base URL, and the query parameters it accepts. `:param`
+ * matches one path segment and `:param*` one or more, slashes included.
+ * Usage: new Route('wikipedia', 'wiki/:title*').withQuery<{ oldid?: number }>()
+ */
+export class Route<
+  Path extends string = string,
+  Query extends QueryParams = Record<never, never>,
+> {
+  readonly app: AppName;
+  readonly path: Path;
+  readonly options: RouteOptions;
+
+  constructor(app: AppName, path: Path, options: RouteOptions = {}) {
+    this.app = app;
+    this.path = path;
+    this.options = options;
+  }
+
+  /**
+   * The same route with a typed query
+   */
+  withQuery<Q extends QueryParams>(): Route<Path, Q> {
+    return this as unknown as Route<Path, Q>;
+  }
+
+  /**
+   * Build the full URL, encoding each path and query value
+   * @throws if a path parameter has no value
+   */
+  url(baseUrl: string, params?: RouteParams<Path, Query>): string {
+    const values = (params ?? {}) as Record<string, unknown>;
+    const path = this.path
+      .replace(/^\//, '')
+      .replace(/:(\w+)(\*?)/g, (_, name: string, spans: string) => {
+        if (values[name] === undefined) {
+          throw new Error(`Missing value for :${name} in route "${this.path}"`);
+        }
+        const value = String(values[name]);
+        return spans
+          ? value.split('/').map(encodeURIComponent).join('/')
+          : encodeURIComponent(value);
+      });
+
+    const url = new URL(Route.resolve(baseUrl, path));
+    const query = (values.query ?? {}) as QueryParams;
+    for (const [name, value] of Object.entries(query)) {
+      if (value !== undefined) {
+        url.searchParams.set(name, String(value));
+      }
+    }
+    return url.toString();
+  }
+
+  /**
+   * Whether a URL is this route under the base URL (anywhere, with
+   * `matchSuffix`), whatever the parameter values, query and hash
+   */
+  matches(url: string | URL, baseUrl: string): boolean {
+    const target = new URL(url);
+    const path = this.path
+      .replace(/^\/|\/$/g, '')
+      .split('/')
+      .filter(Boolean)
+      .map(segment => {
+        if (segment.startsWith(':')) {
+          return segment.endsWith('*') ? '.+' : '[^/]+';
+        }
+        return Route.escape(segment);
+      })
+      .join('/');
+
+    if (this.options.matchSuffix) {
+      return new RegExp(`(^|/)${path}/?$`).test(target.pathname);
+    }
+    const base = new URL(Route.withTrailingSlash(baseUrl));
+    return (
+      target.origin === base.origin &&
+      new RegExp(`^${Route.escape(base.pathname)}${path}/?$`).test(
+        target.pathname
+      )
+    );
+  }
+
+  /**
+   * Resolve a path against a base URL, keeping the base URL's own path;
+   * absolute URLs are returned unchanged
+   */
+  static resolve(baseUrl: string, path: string): string {
+    return new URL(
+      path.replace(/^\//, ''),
+      Route.withTrailingSlash(baseUrl)
+    ).toString();
+  }
+
+  toString(): string {
+    return `${this.app}:/${this.path.replace(/^\//, '')}`;
+  }
+
+  private static escape(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+
+  private static withTrailingSlash(baseUrl: string): string {
+    return baseUrl.endsWith('/') ? baseUrl : `${baseUrl}/`;
+  }
+}
@@ -0,0 +1,87 @@
+import { Locator, Page } from '@playwright/test';
+import { Credentials, EnvironmentConfig } from '../../config/EnvironmentConfig';
+import { AppName } from '../../config/EnvironmentProfiles';
+import {
+  PageNotReadyError,
+  PageReadiness,
+  ReadyConditions,
+} from '../../readiness/PageReadiness';
+import { BasePage } from '../BasePage';
+import { Route } from '../Route';
+
+/**
+ * Login Page Object shared by the POS and CPMS applications
+ */
+export class LoginPage extends BasePage<Route<'login'>> {
+  static readonly REDIRECT_TIMEOUT = 10_000;
+
+  protected readonly route: Route<'login'>;
+
+  // Locators
+  readonly usernameInput: Locator;
+  readonly passwordInput: Locator;
+  readonly submitButton: Locator;
+
+  constructor(page: Page, environment: EnvironmentConfig, app: AppName) {
+    super(page, environment);
+
+    // Apps may redirect to a login page outside their base path
+    this.route = new Route(app, 'login', { matchSuffix: true });
+    this.usernameInput = this.page.getByLabel(/user ?name|e-?mail/i);
+    this.passwordInput = this.page.getByLabel(/password/i);
+    this.submitButton = this.page.getByRole('button', {
+      name: /log ?in|sign ?in/i,
+    });
+  }
+
+  protected readyConditions(): ReadyConditions {
+    return { visible: [this.usernameInput] };
+  }
+
+  /**
+   * Submit credentials and wait until the app has left the login page
+   */
+  async login(credentials: Credentials): Promise<void> {
+    this.logger.info(`Logging in as ${credentials.username}`);
+    await this.usernameInput.fill(credentials.username);
+    await this.passwordInput.fill(credentials.password);
+    await this.submitButton.click();
+    const baseUrl = this.environment.baseUrl(this.route.app);
+    await this.page.waitForURL(url => !this.route.matches(url, baseUrl));
+    this.logger.info('Login completed');
+  }
+
+  /**
+   * Check whether the browser is currently on the login page
+   */
+  isDisplayed(): boolean {
+    return this.isCurrent();
+  }
+
+  /**
+   * Wait for the app to settle after a navigation and report whether it
+   * asked for a login. Apps often check the session after loading and only
+   * then redirect, so the URL right after goto() can't tell.
+   * @throws if the app redirected to the login page but its form never showed
+   */
+  async isRequired(
+    timeout: number = LoginPage.REDIRECT_TIMEOUT
+  ): Promise<boolean> {
+    try {
+      await PageReadiness.waitFor(this.page, this.constructor.name, {
+        networkQuiet: true,
+        timeout,
+      });
+    } catch (error) {
+      // Decide on what has loaded so far
+      if (!(error instanceof PageNotReadyError)) {
+        throw error;
+      }
+    }
+    if (this.isDisplayed()) {
+      await this.usernameInput.waitFor({ state: 'visible', timeout });
+      return true;
+    }
+    return await this.usernameInput.isVisible();
+  }
+}
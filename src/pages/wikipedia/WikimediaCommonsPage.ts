@@ -1,12 +1,25 @@
 import { Page } from '@playwright/test';
+import { EnvironmentConfig } from '../../config/EnvironmentConfig';
+import { ReadyConditions } from '../../readiness/PageReadiness';
 import { BasePage } from '../BasePage';
+import { Route } from '../Route';
+
+// Titles may contain slashes, e.g. subpages and some file names
+const route = new Route('commons', 'wiki/:title*');
 
 /**
- * Wikimedia Commons Page Object
+ * Wikimedia Commons Page Object, for any wiki page on Commons
+ * Usage: await wikimediaCommonsPage.navigate({ title: 'Main_Page' });
  */
-export class WikimediaCommonsPage extends BasePage {
-  constructor(page: Page) {
-    super(page);
+export class WikimediaCommonsPage extends BasePage<typeof route> {
+  protected readonly route = route;
+
+  constructor(page: Page, environment: EnvironmentConfig) {
+    super(page, environment);
+  }
+
+  protected readyConditions(): ReadyConditions {
+    return { visible: [this.page.locator('#content')] };
   }
 
   /**
@@ -18,11 +31,4 @@ export class WikimediaCommonsPage extends BasePage {
     this.logger.info(`Page title: ${title}`);
     return title;
   }
-
-  /**
-   * Get the current page URL
-   */
-  getPageUrl(): string {
-    return this.page.url();
-  }
 }
@@ -1,45 +1,46 @@
-import { Locator, Page } from '@playwright/test';
+import { Page } from '@playwright/test';
+import { EnvironmentConfig } from '../../config/EnvironmentConfig';
+import { By, HealingLocator } from '../../locators/HealingLocator';
+import { ReadyConditions } from '../../readiness/PageReadiness';
+import { action } from '../../utils/PageAction';
 import { BasePage } from '../BasePage';
+import { Route } from '../Route';
+import { WikimediaCommonsPage } from './WikimediaCommonsPage';
+
+const route = new Route('wikipedia', '');
 
 /**
  * Wikipedia Home Page Object
  */
-export class WikipediaHomePage extends BasePage {
-  readonly url = 'https://www.wikipedia.org/';
+export class WikipediaHomePage extends BasePage<typeof route> {
+  protected readonly route = route;
 
   // Locators
-  readonly commonsLink: Locator;
+  readonly commonsLink: HealingLocator;
 
-  constructor(page: Page) {
-    super(page);
-    
-    this.commonsLink = this.page.locator('a:has(.other-project-title[data-jsl10n="commons.name"])');
-  }
+  constructor(page: Page, environment: EnvironmentConfig) {
+    super(page, environment);
 
-  /**
-   * Navigate to Wikipedia homepage
-   */
-  async navigate(): Promise<void> {
-    this.logger.info('Navigating to Wikipedia homepage');
-    await this.page.goto(this.url);
-    await this.waitForPageLoad();
-    this.logger.info('Wikipedia homepage loaded');
+    this.commonsLink = this.healingLocator(
+      'commonsLink',
+      By.css('a:has(.other-project-title[data-jsl10n="commons.name"])'),
+      By.role('link', { name: /^Commons\b/ }),
+      By.css('a[href*="commons.wikimedia.org"]')
+    );
   }
 
-  /**
-   * Click the Commons link
-   */
-  async clickCommonsLink(): Promise<void> {
-    this.logger.info('Clicking Commons link');
-    await this.commonsLink.click();
-    await this.waitForPageLoad();
-    this.logger.info('Commons link clicked');
+  protected readyConditions(): ReadyConditions {
+    return { visible: [this.page.locator('#searchInput')] };
   }
 
   /**
-   * Get the current page URL
+   * Click the Commons link and wait for Commons to load
    */
-  getPageUrl(): string {
-    return this.page.url();
+  @action('Click Commons link')
+  async clickCommonsLink(): Promise<WikimediaCommonsPage> {
+    return this.clickAndExpectPage(
+      await this.commonsLink.resolve(),
+      WikimediaCommonsPage
+    );
   }
 }
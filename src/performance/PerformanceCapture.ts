@@ -0,0 +1,255 @@
+import { Page } from '@playwright/test';
+import { AllureHelper } from '../utils/AllureHelper';
+import { Logger } from '../utils/Logger';
+
+/**
+ * Timings are in milliseconds from the start of the navigation
+ */
+export interface PerformanceMetrics {
+  page: string;
+  url: string;
+  capturedAt: string;
+  navigation: {
+    ttfb: number;
+    domInteractive: number;
+    domContentLoaded: number;
+    load: number;
+  };
+  paint: {
+    firstPaint?: number;
+    firstContentfulPaint?: number;
+    largestContentfulPaint?: number;
+  };
+  longTasks: { count: number; totalDuration: number };
+  resources: {
+    count: number;
+    /** Bytes over the network; cached and cross-origin opaque resources count as 0 */
+    transferSize: number;
+    /** Resource counts by initiator type (script, img, css, fetch, ...) */
+    byType: Record<string, number>;
+  };
+}
+
+export type BudgetMetric =
+  | 'ttfb'
+  | 'domContentLoaded'
+  | 'load'
+  | 'firstContentfulPaint'
+  | 'largestContentfulPaint'
+  | 'longTaskCount'
+  | 'longTaskDuration'
+  | 'resourceCount'
+  | 'transferSize';
+
+/**
+ * Upper limits per metric; metrics left out are not checked
+ */
+export type PerformanceBudget = Partial<Record<BudgetMetric, number>>;
+
+export interface BudgetViolation {
+  metric: BudgetMetric;
+  budget: number;
+  actual: number;
+}
+
+export interface PerformanceResult {
+  metrics: PerformanceMetrics;
+  violations: BudgetViolation[];
+}
+
+/**
+ * Attachments with this name prefix carry PerformanceMetrics JSON, which
+ * PlaywrightTestListener collects into its trend file
+ */
+export const PERFORMANCE_ATTACHMENT_PREFIX = 'Performance: ';
+
+interface CaptureStore {
+  longTasks: { startTime: number; duration: number }[];
+  largestContentfulPaint?: number;
+}
+
+declare global {
+  interface Window {
+    __performanceCapture?: CaptureStore;
+  }
+}
+
+/**
+ * Collects navigation timing, paint, long task and resource metrics from
+ * a page. Long tasks and largest contentful paint are only observed in
+ * pages that had `install` called before they navigated.
+ */
+export class PerformanceCapture {
+  private static logger = Logger.for('PerformanceCapture');
+
+  /**
+   * Start observing long tasks and largest contentful paint in every
+   * document the page loads from now on
+   */
+  static async install(page: Page): Promise<void> {
+    await page.addInitScript(() => {
+      const store: CaptureStore = { longTasks: [] };
+      window.__performanceCapture = store;
+      try {
+        new PerformanceObserver(list => {
+          for (const entry of list.getEntries()) {
+            store.longTasks.push({
+              startTime: entry.startTime,
+              duration: entry.duration,
+            });
+          }
+        }).observe({ type: 'longtask', buffered: true });
+        new PerformanceObserver(list => {
+          const entries = list.getEntries();
+          store.largestContentfulPaint = entries[entries.length - 1]?.startTime;
+        }).observe({ type: 'largest-contentful-paint', buffered: true });
+      } catch {
+        // Entry types not supported by this browser
+      }
+    });
+  }
+
+  /**
+   * Read the metrics of the page's current document
+   */
+  static async collect(
+    page: Page,
+    pageName: string
+  ): Promise<PerformanceMetrics> {
+    const collected = await page.evaluate(() => {
+      const [navigation] = performance.getEntriesByType(
+        'navigation'
+      ) as PerformanceNavigationTiming[];
+      const paints = performance.getEntriesByType('paint');
+      const resources = performance.getEntriesByType(
+        'resource'
+      ) as PerformanceResourceTiming[];
+      const store = window.__performanceCapture;
+      const paint = (name: string) =>
+        paints.find(entry => entry.name === name)?.startTime;
+
+      const byType: Record<string, number> = {};
+      for (const resource of resources) {
+        byType[resource.initiatorType] =
+          (byType[resource.initiatorType] ?? 0) + 1;
+      }
+
+      return {
+        navigation: {
+          ttfb: navigation?.responseStart ?? 0,
+          domInteractive: navigation?.domInteractive ?? 0,
+          domContentLoaded: navigation?.domContentLoadedEventEnd ?? 0,
+          load: navigation?.loadEventEnd ?? 0,
+        },
+        paint: {
+          firstPaint: paint('first-paint'),
+          firstContentfulPaint: paint('first-contentful-paint'),
+          largestContentfulPaint: store?.largestContentfulPaint,
+        },
+        longTasks: {
+          count: store?.longTasks.length ?? 0,
+          totalDuration: (store?.longTasks ?? []).reduce(
+            (sum, task) => sum + task.duration,
+            0
+          ),
+        },
+        resources: {
+          count: resources.length,
+          transferSize: resources.reduce(
+            (sum, resource) => sum + resource.transferSize,
+            0
+          ),
+          byType,
+        },
+      };
+    });
+
+    return {
+      page: pageName,
+      url: page.url(),
+      capturedAt: new Date().toISOString(),
+      ...PerformanceCapture.round(collected),
+    };
+  }
+
+  /**
+   * Collect the page's metrics, check them against a budget and attach
+   * both to Allure
+   */
+  static async capture(
+    page: Page,
+    pageName: string,
+    budget: PerformanceBudget = {}
+  ): Promise<PerformanceResult> {
+    const metrics = await PerformanceCapture.collect(page, pageName);
+    const violations = PerformanceCapture.checkBudget(metrics, budget);
+
+    PerformanceCapture.logger.info(
+      `Performance of ${pageName}: load ${metrics.navigation.load}ms, FCP ${metrics.paint.firstContentfulPaint ?? '-'}ms, ${metrics.resources.count} resources`
+    );
+    for (const violation of violations) {
+      PerformanceCapture.logger.warn(
+        `Performance budget exceeded on ${pageName}: ${violation.metric} ${violation.actual} > ${violation.budget}`
+      );
+    }
+    await AllureHelper.attachJson(
+      `${PERFORMANCE_ATTACHMENT_PREFIX}${pageName}`,
+      {
+        ...metrics,
+        budget,
+        violations,
+      }
+    );
+    return { metrics, violations };
+  }
+
+  /**
+   * Metrics that exceed their budget. Paint metrics the browser did not
+   * report are not checked.
+   */
+  static checkBudget(
+    metrics: PerformanceMetrics,
+    budget: PerformanceBudget
+  ): BudgetViolation[] {
+    const values = PerformanceCapture.budgetValues(metrics);
+    const violations: BudgetViolation[] = [];
+    for (const [metric, limit] of Object.entries(budget) as [
+      BudgetMetric,
+      number,
+    ][]) {
+      const actual = values[metric];
+      if (actual !== undefined && actual > limit) {
+        violations.push({ metric, budget: limit, actual });
+      }
+    }
+    return violations;
+  }
+
+  /**
+   * The metrics a budget can limit, flattened
+   */
+  static budgetValues(
+    metrics: PerformanceMetrics
+  ): Record<BudgetMetric, number | undefined> {
+    return {
+      ttfb: metrics.navigation.ttfb,
+      domContentLoaded: metrics.navigation.domContentLoaded,
+      load: metrics.navigation.load,
+      firstContentfulPaint: metrics.paint.firstContentfulPaint,
+      largestContentfulPaint: metrics.paint.largestContentfulPaint,
+      longTaskCount: metrics.longTasks.count,
+      longTaskDuration: metrics.longTasks.totalDuration,
+      resourceCount: metrics.resources.count,
+      transferSize: metrics.resources.transferSize,
+    };
+  }
+
+  // Sub-millisecond precision is noise in reports and trend files
+  private static round<T>(value: T): T {
+    return JSON.parse(
+      JSON.stringify(value, (_key, nested) =>
+        typeof nested === 'number' ? Math.round(nested) : nested
+      )
+    ) as T;
+  }
+}
@@ -0,0 +1,118 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Logger } from '../utils/Logger';
+import {
+  BudgetMetric,
+  PerformanceCapture,
+  PerformanceMetrics,
+} from './PerformanceCapture';
+
+/**
+ * One page capture in one run, flattened to the budget metrics
+ */
+export type PerformanceSample = {
+  timestamp: string;
+  testId: string;
+  url: string;
+} & Partial<Record<BudgetMetric, number>>;
+
+export const DEFAULT_TREND_FILE = 'playwright/.history/performance-trend.json';
+
+/**
+ * Performance samples per page object across runs, kept outside the
+ * Playwright output directory so trends survive between runs
+ */
+export class PerformanceTrend {
+  private readonly filePath: string;
+  private readonly maxSamples: number;
+  private readonly pages: Record<string, PerformanceSample[]>;
+
+  private constructor(
+    filePath: string,
+    maxSamples: number,
+    pages: Record<string, PerformanceSample[]>
+  ) {
+    this.filePath = filePath;
+    this.maxSamples = maxSamples;
+    this.pages = pages;
+  }
+
+  /**
+   * Load the trend file, starting empty when it is missing or unreadable
+   * @param maxSamples - number of most recent samples kept per page
+   */
+  static load(
+    filePath: string = DEFAULT_TREND_FILE,
+    maxSamples: number = 50
+  ): PerformanceTrend {
+    let pages: Record<string, PerformanceSample[]> = {};
+    try {
+      if (fs.existsSync(filePath)) {
+        pages = JSON.parse(fs.readFileSync(filePath, 'utf-8')).pages ?? {};
+      }
+    } catch (error) {
+      Logger.for('PerformanceTrend').warn(
+        `Ignoring unreadable performance trend ${filePath}`,
+        { error }
+      );
+    }
+    return new PerformanceTrend(filePath, maxSamples, pages);
+  }
+
+  record(metrics: PerformanceMetrics, testId: string, timestamp: string): void {
+    const values = PerformanceCapture.budgetValues(metrics);
+    const sample: PerformanceSample = { timestamp, testId, url: metrics.url };
+    for (const [metric, value] of Object.entries(values) as [
+      BudgetMetric,
+      number | undefined,
+    ][]) {
+      if (value !== undefined) {
+        sample[metric] = value;
+      }
+    }
+    const samples = [...(this.pages[metrics.page] ?? []), sample];
+    this.pages[metrics.page] = samples.slice(-this.maxSamples);
+  }
+
+  pageNames(): string[] {
+    return Object.keys(this.pages);
+  }
+
+  /**
+   * Samples of a page, oldest first
+   */
+  samples(pageName: string): PerformanceSample[] {
+    return this.pages[pageName] ?? [];
+  }
+
+  /**
+   * Average of a metric over the samples recorded before `before`
+   */
+  averageBefore(
+    pageName: string,
+    metric: BudgetMetric,
+    before: string
+  ): number | undefined {
+    const values = this.samples(pageName)
+      .filter(sample => sample.timestamp < before)
+      .map(sample => sample[metric])
+      .filter((value): value is number => value !== undefined);
+    if (values.length === 0) {
+      return undefined;
+    }
+    return Math.round(
+      values.reduce((sum, value) => sum + value, 0) / values.length
+    );
+  }
+
+  save(): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    // Write then rename so an interrupted run never leaves a partial file
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(
+      tempPath,
+      JSON.stringify({ version: 1, pages: this.pages }, null, 2)
+    );
+    fs.renameSync(tempPath, this.filePath);
+  }
+}
@@ -0,0 +1,170 @@
+import { Locator, Page } from '@playwright/test';
+import { Logger } from '../utils/Logger';
+import { RequestTracker, UrlMatcher } from './RequestTracker';
+
+/**
+ * What a page needs before tests can use it. Every condition must hold;
+ * an empty set only waits for the DOM content to load.
+ */
+export interface ReadyConditions {
+  /** Key elements that must be visible */
+  visible?: Locator[];
+  /** Spinners, skeletons and overlays that must be gone */
+  hidden?: Locator[];
+  /** API responses that must have arrived since the page's document loaded */
+  responses?: UrlMatcher[];
+  /**
+   * Require no pending fetch/XHR requests for `quietTime` ms; `true` uses
+   * the defaults. Requests matching `ignore` (polling, analytics) never
+   * count as pending.
+   */
+  networkQuiet?: boolean | { ignore?: UrlMatcher[]; quietTime?: number };
+  /** Overall time limit for all conditions */
+  timeout?: number;
+}
+
+/**
+ * Thrown when a page is not ready in time. Lists the conditions that were
+ * not met, with what was found instead.
+ */
+export class PageNotReadyError extends Error {
+  readonly unmet: string[];
+
+  constructor(pageName: string, timeout: number, unmet: string[]) {
+    super(
+      `${pageName} was not ready after ${timeout}ms:\n` +
+        unmet.map(condition => `  - ${condition}`).join('\n')
+    );
+    this.name = 'PageNotReadyError';
+    this.unmet = unmet;
+  }
+}
+
+interface ConditionCheck {
+  description: string;
+  wait(timeout: number): Promise<void>;
+  /** Extra detail for the error when the condition was not met */
+  diagnose?(): string;
+}
+
+const POLL_INTERVAL = 100;
+
+/**
+ * Waits for a page's ready conditions, all against one deadline, and
+ * reports every condition that was not met rather than the first
+ */
+export class PageReadiness {
+  static readonly DEFAULT_TIMEOUT = 15_000;
+  static readonly DEFAULT_QUIET_TIME = 500;
+
+  /**
+   * @param pageName - page object name, used in logs and errors
+   * @throws PageNotReadyError listing the unmet conditions
+   */
+  static async waitFor(
+    page: Page,
+    pageName: string,
+    conditions: ReadyConditions
+  ): Promise<void> {
+    const { timeout = PageReadiness.DEFAULT_TIMEOUT } = conditions;
+    const logger = Logger.for(pageName);
+    const checks = PageReadiness.checks(page, conditions);
+    const start = Date.now();
+
+    const results = await Promise.allSettled(
+      checks.map(check => check.wait(timeout))
+    );
+    const unmet = checks
+      .filter((_check, index) => results[index].status === 'rejected')
+      .map(check =>
+        check.diagnose
+          ? `${check.description} (${check.diagnose()})`
+          : check.description
+      );
+
+    if (unmet.length > 0) {
+      throw new PageNotReadyError(pageName, timeout, unmet);
+    }
+    logger.debug(
+      `Ready after ${Date.now() - start}ms (${checks.length} condition(s))`
+    );
+  }
+
+  private static checks(
+    page: Page,
+    conditions: ReadyConditions
+  ): ConditionCheck[] {
+    const tracker = RequestTracker.for(page);
+    const checks: ConditionCheck[] = [
+      {
+        description: 'DOM content loaded',
+        wait: timeout => page.waitForLoadState('domcontentloaded', { timeout }),
+      },
+    ];
+
+    for (const locator of conditions.visible ?? []) {
+      checks.push({
+        description: `${locator} visible`,
+        wait: timeout => locator.first().waitFor({ state: 'visible', timeout }),
+      });
+    }
+    for (const locator of conditions.hidden ?? []) {
+      checks.push({
+        description: `${locator} hidden`,
+        // Every match must be hidden, not just the first
+        wait: timeout =>
+          PageReadiness.poll(
+            async () => (await locator.filter({ visible: true }).count()) === 0,
+            timeout
+          ),
+      });
+    }
+    for (const matcher of conditions.responses ?? []) {
+      checks.push({
+        description: `response from ${matcher} received`,
+        wait: timeout =>
+          PageReadiness.poll(() => tracker.hasResponse(matcher), timeout),
+      });
+    }
+
+    if (conditions.networkQuiet) {
+      const { ignore = [], quietTime = PageReadiness.DEFAULT_QUIET_TIME } =
+        conditions.networkQuiet === true ? {} : conditions.networkQuiet;
+      let quietSince = Date.now();
+      checks.push({
+        description: `no pending requests for ${quietTime}ms`,
+        wait: timeout =>
+          PageReadiness.poll(() => {
+            if (tracker.pending(ignore).length > 0) {
+              quietSince = Date.now();
+            }
+            return Date.now() - quietSince >= quietTime;
+          }, timeout),
+        diagnose: () => {
+          const pending = tracker.pending(ignore);
+          return `${pending.length} pending: ${pending
+            .slice(0, 5)
+            .map(request => `${request.method()} ${request.url()}`)
+            .join(', ')}`;
+        },
+      });
+    }
+    return checks;
+  }
+
+  /**
+   * Resolve once the predicate holds, reject at the timeout
+   */
+  private static async poll(
+    predicate: () => boolean | Promise<boolean>,
+    timeout: number
+  ): Promise<void> {
+    const deadline = Date.now() + timeout;
+    while (!(await predicate())) {
+      if (Date.now() >= deadline) {
+        throw new Error(`Condition not met within ${timeout}ms`);
+      }
+      await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL));
+    }
+  }
+}
@@ -0,0 +1,108 @@
+import { Page, Request, Response } from '@playwright/test';
+
+/**
+ * Matches a request or response by URL substring, URL pattern or predicate.
+ * A RegExp with the `g` or `y` flag is stateful (`test` continues from
+ * `lastIndex`), so the tracker resets it before every match.
+ */
+export type UrlMatcher = string | RegExp | ((url: string) => boolean);
+
+const TRACKED_RESOURCE_TYPES = ['fetch', 'xhr'];
+
+/**
+ * Follows a page's fetch and XHR traffic, so readiness checks can tell
+ * which API responses have arrived since the document loaded and which
+ * requests are still pending. Only traffic after the tracker was created
+ * is seen; BasePage creates it when the page object is constructed.
+ */
+export class RequestTracker {
+  private static readonly trackers: WeakMap<Page, RequestTracker> =
+    new WeakMap();
+
+  private readonly inFlight: Set<Request> = new Set();
+  private responses: Response[] = [];
+  // Main-frame document request of a navigation that has not committed yet
+  private documentRequest?: Request;
+
+  private constructor(page: Page) {
+    page.on('request', request => {
+      if (
+        request.isNavigationRequest() &&
+        request.frame() === page.mainFrame()
+      ) {
+        this.documentRequest = request;
+      }
+      if (RequestTracker.isTracked(request)) {
+        this.inFlight.add(request);
+      }
+    });
+    page.on('response', response => {
+      if (RequestTracker.isTracked(response.request())) {
+        this.responses.push(response);
+      }
+    });
+    const settle = (request: Request) => this.inFlight.delete(request);
+    page.on('requestfinished', settle);
+    page.on('requestfailed', request => {
+      settle(request);
+      if (request === this.documentRequest) {
+        this.documentRequest = undefined;
+      }
+    });
+    // Same-document navigations (pushState, hash changes) also fire
+    // framenavigated but make no document request; they keep the responses
+    page.on('framenavigated', frame => {
+      if (frame === page.mainFrame() && this.documentRequest) {
+        this.documentRequest = undefined;
+        this.responses = [];
+      }
+    });
+  }
+
+  /**
+   * The page's tracker, created on first use
+   */
+  static for(page: Page): RequestTracker {
+    let tracker = RequestTracker.trackers.get(page);
+    if (!tracker) {
+      tracker = new RequestTracker(page);
+      RequestTracker.trackers.set(page, tracker);
+    }
+    return tracker;
+  }
+
+  /**
+   * Fetch and XHR requests still waiting for a response
+   * @param ignore - URLs that never count as pending, e.g. polling
+   */
+  pending(ignore: UrlMatcher[] = []): Request[] {
+    return Array.from(this.inFlight).filter(
+      request => !ignore.some(matcher => matches(matcher, request.url()))
+    );
+  }
+
+  /**
+   * Whether a matching response arrived since the last document load
+   */
+  hasResponse(matcher: UrlMatcher): boolean {
+    return this.responses.some(response => matches(matcher, response.url()));
+  }
+
+  private static isTracked(request: Request): boolean {
+    return TRACKED_RESOURCE_TYPES.includes(request.resourceType());
+  }
+}
+
+/**
+ * Test a URL against a matcher; strings match as substrings
+ */
+function matches(matcher: UrlMatcher, url: string): boolean {
+  if (typeof matcher === 'string') {
+    return url.includes(matcher);
+  }
+  if (matcher instanceof RegExp) {
+    matcher.lastIndex = 0;
+    return matcher.test(url);
+  }
+  return matcher(url);
+}
@@ -0,0 +1,33 @@
+import { chromium, FullConfig } from '@playwright/test';
+import { SessionManager } from '../auth/SessionManager';
+import { EnvironmentConfig } from '../config/EnvironmentConfig';
+import { Logger } from '../utils/Logger';
+
+/**
+ * Global setup
+ * Logs every role with configured credentials in once before the workers
+ * start, so tests pick up cached sessions instead of logging in themselves
+ */
+export default async function globalSetup(config: FullConfig): Promise<void> {
+  const logger = Logger.for('GlobalSetup');
+  const environment = EnvironmentConfig.load();
+  const roles = environment.configuredRoles();
+
+  if (roles.length === 0) {
+    logger.info('No role credentials configured, skipping authentication');
+    return;
+  }
+
+  const sessionManager = new SessionManager(environment);
+  const browser = await chromium.launch({
+    channel: config.projects[0]?.use.channel,
+  });
+  try {
+    for (const role of roles) {
+      await sessionManager.ensureSession(browser, role);
+    }
+  } finally {
+    await browser.close();
+  }
+  logger.info(`Authenticated roles: ${roles.join(', ')}`);
+}
@@ -0,0 +1,73 @@
+import { expect, test } from '@playwright/test';
+import {
+  AccessibilityAudit,
+  AccessibilityViolation,
+  KnownViolation,
+} from '../accessibility/AccessibilityAudit';
+
+/**
+ * AccessibilityAudit Test Suite
+ * Comparing violations with a baseline and updating it, without a browser
+ */
+test.describe('AccessibilityAudit', () => {
+  const violation = (
+    rule: string,
+    ...targets: string[]
+  ): AccessibilityViolation => ({
+    rule,
+    impact: 'serious',
+    description: rule,
+    helpUrl: `https://dequeuniversity.com/rules/axe/${rule}`,
+    tags: ['wcag2aa'],
+    nodes: targets.map(target => ({ target, html: '<a></a>' })),
+  });
+  const known: KnownViolation[] = [
+    {
+      rule: 'color-contrast',
+      target: 'footer .legal a',
+      reason: 'Brand colours, DS-42',
+    },
+    { rule: 'region', target: '*', reason: 'Legacy layout' },
+    { rule: 'link-name', target: '.logo a' },
+    { rule: 'image-alt', target: '.hero img', reason: 'Checked in scope' },
+  ];
+
+  test('splits new violations from known ones', () => {
+    const result = AccessibilityAudit.compare(
+      [
+        violation('color-contrast', 'footer .legal a', 'nav a'),
+        violation('region', 'main', 'aside'),
+      ],
+      known
+    );
+
+    expect(result.newViolations).toEqual([
+      violation('color-contrast', 'nav a'),
+    ]);
+    expect(result.resolved).toEqual([known[2], known[3]]);
+  });
+
+  test('adds violations and keeps reasons and unaudited entries', () => {
+    const merged = AccessibilityAudit.mergeBaseline(
+      known,
+      [
+        violation('color-contrast', 'footer .legal a', 'nav a'),
+        violation('region', 'main'),
+      ],
+      entry => entry.rule !== 'image-alt'
+    );
+
+    expect(merged).toEqual([
+      known[0],
+      known[1],
+      known[3],
+      { rule: 'color-contrast', target: 'nav a' },
+    ]);
+  });
+
+  test('keeps every entry when nothing was audited', () => {
+    expect(AccessibilityAudit.mergeBaseline(known, [], () => false)).toEqual(
+      known
+    );
+  });
+});
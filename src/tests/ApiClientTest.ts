@@ -0,0 +1,66 @@
+import { APIRequestContext, expect, test } from '@playwright/test';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { ApiClient, ApiResponse } from '../api/ApiClient';
+import { EnvironmentConfig } from '../config/EnvironmentConfig';
+
+/**
+ * Client exposing a plain GET, as endpoint clients build on
+ */
+class EchoClient extends ApiClient {
+  async fetch(path: string): Promise<ApiResponse<{ url: string }>> {
+    return await this.get(path, { params: { page: 2 } });
+  }
+}
+
+/**
+ * ApiClient Test Suite
+ * Request URLs built from the base URL, against a local server
+ */
+test.describe('ApiClient', () => {
+  let server: http.Server;
+  let origin: string;
+
+  test.beforeAll(async () => {
+    server = http.createServer((request, response) => {
+      response.setHeader('Content-Type', 'application/json');
+      response.end(JSON.stringify({ url: request.url }));
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  test.afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  const client = (request: APIRequestContext, baseUrl: string) =>
+    new EchoClient(
+      request,
+      EnvironmentConfig.fromVariables({
+        TEST_ENV: 'qa',
+        API_BASE_URL: baseUrl,
+      }),
+      'api'
+    );
+
+  test('keeps the base path with or without a trailing slash', async ({
+    request,
+  }) => {
+    for (const baseUrl of [`${origin}/api/v1`, `${origin}/api/v1/`]) {
+      const api = client(request, baseUrl);
+
+      expect((await api.fetch('users')).body.url).toBe('/api/v1/users?page=2');
+      expect((await api.fetch('/users/1')).body.url).toBe(
+        '/api/v1/users/1?page=2'
+      );
+    }
+  });
+
+  test('sends requests from the origin root', async ({ request }) => {
+    const response = await client(request, origin).fetch('posts');
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ url: '/posts?page=2' });
+  });
+});
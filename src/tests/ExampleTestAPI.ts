@@ -1,4 +1,9 @@
-import { expect, test } from '@playwright/test';
+import { expect } from '@playwright/test';
+import { ApiResponse } from '../api/ApiClient';
+import { Post } from '../api/jsonplaceholder/JsonPlaceholderSchemas';
+import { postFactory } from '../data/factories/PostFactory';
+import { testEach } from '../fixtures/DataDriven';
+import { test } from '../fixtures/PageFixtures';
 import { Logger } from '../utils/Logger';
 
 /**
@@ -12,37 +17,64 @@ test.describe('API Tests', () => {
     logger.info('🚀 Starting API test setup');
   });
 
-  test('should verify API endpoint returns valid response', async ({ request }) => {
+  test('should verify API endpoint returns valid response', async ({ jsonPlaceholderClient }) => {
     logger.info('📋 Starting API test - health check');
 
+    let response: ApiResponse<Post>;
+
     await test.step('Step 1: Make GET request to API endpoint', async () => {
       logger.info('Step 1: Making GET request to JSONPlaceholder API');
 
-      const response = await request.get('https://jsonplaceholder.typicode.com/posts/1');
+      // Response body is validated against the post schema by the client
+      response = await jsonPlaceholderClient.getPost(1);
 
       // Verify response status
-      expect(response.status()).toBe(200);
+      expect(response.status).toBe(200);
       logger.info('✅ Step 1 complete: API responded with 200 OK');
     });
 
-    await test.step('Step 2: Verify response body structure', async () => {
-      logger.info('Step 2: Verifying response body structure');
-
-      const response = await request.get('https://jsonplaceholder.typicode.com/posts/1');
-      const responseBody = await response.json();
+    await test.step('Step 2: Verify response body content', async () => {
+      logger.info('Step 2: Verifying response body content');
 
-      // Verify response contains expected fields
-      expect(responseBody).toHaveProperty('userId');
-      expect(responseBody).toHaveProperty('id');
-      expect(responseBody).toHaveProperty('title');
-      expect(responseBody).toHaveProperty('body');
+      expect(response.body.id).toBe(1);
+      expect(response.body.title).not.toBe('');
 
-      logger.info(`✅ Step 2 complete: Response body validated - Post ID: ${responseBody.id}`);
+      logger.info(`✅ Step 2 complete: Response body validated - Post ID: ${response.body.id}`);
     });
 
     logger.info('🎉 API test completed successfully');
   });
 
+  test('should create a post from factory data', async ({ jsonPlaceholderClient, fake, testData }) => {
+    const newPost = postFactory.using(fake).build({ userId: 1 });
+
+    await test.step('Step 1: Create post', async () => {
+      // Deleted again at teardown, even if a later step fails
+      const response = await testData.create(
+        `post "${newPost.title}"`,
+        () => jsonPlaceholderClient.createPost(newPost),
+        async created => {
+          await jsonPlaceholderClient.deletePost(created.body.id);
+        }
+      );
+
+      expect(response.status).toBe(201);
+      expect(response.body).toMatchObject(newPost);
+    });
+  });
+
+  // One test per row of src/data/files/posts.yaml
+  testEach<{ id: number; userId: number }>(
+    'posts',
+    { title: 'should return post {id} for user {userId}' },
+    async ({ jsonPlaceholderClient, row }) => {
+      const response = await jsonPlaceholderClient.getPost(row.id);
+
+      expect(response.status).toBe(200);
+      expect(response.body.userId).toBe(row.userId);
+    }
+  );
+
   test.afterEach(async () => {
     logger.info('🧹 Test cleanup completed');
   });
@@ -0,0 +1,99 @@
+import { expect, test } from '@playwright/test';
+import * as fs from 'fs';
+import {
+  ExecutionReport,
+  ExecutionReportWriter,
+} from '../utils/ExecutionReportWriter';
+import { Redactor } from '../utils/Redactor';
+
+/**
+ * ExecutionReportWriter Test Suite
+ * Writing the JSON and HTML execution reports
+ */
+test.describe('ExecutionReportWriter', () => {
+  const password = 'Tr0ub4dor&3';
+  const startTime = '2026-01-01T00:00:00.000Z';
+  const report: ExecutionReport = {
+    name: 'execution-report',
+    status: 'failed',
+    startTime,
+    endTime: startTime,
+    duration: 1200,
+    totals: { total: 1, passed: 0, failed: 1, flaky: 0, skipped: 0 },
+    overlays: [],
+    suites: [
+      {
+        name: 'Login',
+        project: 'local',
+        file: 'LoginTest.ts',
+        startTime,
+        total: 1,
+        passed: 0,
+        failed: 1,
+        flaky: 0,
+        skipped: 0,
+        tests: [
+          {
+            id: 'local::LoginTest.ts::Login > should log in',
+            title: 'should log in',
+            titlePath: ['Login', 'should log in'],
+            suite: 'Login',
+            project: 'local',
+            outcome: 'failed',
+            duration: 1200,
+            attempts: [
+              {
+                retry: 0,
+                status: 'failed',
+                startTime,
+                error: {
+                  message: `Login with ${password} was rejected`,
+                  stack: `Error: Login with ${password} was rejected\n    at LoginPage.login`,
+                },
+                steps: [
+                  {
+                    title: `Fill "${password}"`,
+                    category: 'pw:api',
+                    startTime,
+                    status: 'failed',
+                    error: `Timed out filling "${password}"`,
+                  },
+                ],
+                attachments: [],
+              },
+            ],
+          },
+        ],
+      },
+    ],
+  };
+  let restore: () => void;
+
+  test.beforeEach(() => {
+    restore = Redactor.snapshot();
+    Redactor.registerSecret(password);
+  });
+
+  test.afterEach(() => {
+    restore();
+  });
+
+  test('masks registered secrets in both reports', () => {
+    const { json, html } = ExecutionReportWriter.write(
+      report,
+      test.info().outputPath('reports')
+    );
+
+    const written = fs.readFileSync(json, 'utf-8');
+    const rendered = fs.readFileSync(html, 'utf-8');
+    expect(written).not.toContain(password);
+    expect(rendered).not.toContain(password);
+    expect(rendered).not.toContain('Tr0ub4dor&amp;3');
+    expect(JSON.parse(written).suites[0].tests[0].attempts[0].steps[0]).toEqual(
+      expect.objectContaining({ title: 'Fill "***"', category: 'pw:api' })
+    );
+    expect(report.suites[0].tests[0].attempts[0].steps[0].title).toBe(
+      `Fill "${password}"`
+    );
+  });
+});
@@ -0,0 +1,118 @@
+import { expect, test } from '@playwright/test';
+import { Inbox } from '../email/Inbox';
+import { MimeParser } from '../email/MimeParser';
+
+/**
+ * MimeParser Test Suite
+ * Parsing captured emails and reading links and codes from them
+ */
+test.describe('MimeParser', () => {
+  const envelope = { from: 'bounce@app.test', to: ['user@inbox.test'] };
+
+  test('parses headers and a plain text body', () => {
+    const message = MimeParser.parse(
+      [
+        'From: App <noreply@app.test>',
+        'Subject: Your code',
+        'X-Long: first',
+        ' continued',
+        '',
+        'Your code is 482913.',
+      ].join('\r\n'),
+      envelope,
+      1
+    );
+
+    expect(message).toMatchObject({
+      id: 1,
+      from: 'App <noreply@app.test>',
+      to: ['user@inbox.test'],
+      subject: 'Your code',
+      text: 'Your code is 482913.',
+    });
+    expect(message.headers['x-long']).toBe('first continued');
+    expect(message.html).toBeUndefined();
+    expect(Inbox.code(message)).toBe('482913');
+  });
+
+  test('decodes encoded-word subjects', () => {
+    expect(MimeParser.decodeWords('=?UTF-8?B?R3LDvMOfZQ==?=')).toBe('Grüße');
+    expect(MimeParser.decodeWords('=?ISO-8859-1?Q?Caf=E9_cr=E8me?=')).toBe(
+      'Café crème'
+    );
+    expect(MimeParser.decodeWords('=?UTF-8?Q?a?= =?UTF-8?Q?b?=')).toBe('ab');
+  });
+
+  test('reads multipart bodies and skips attachments', () => {
+    const raw = [
+      'Subject: =?UTF-8?Q?Reset_your_password?=',
+      'Content-Type: multipart/mixed; boundary="outer"',
+      '',
+      'preamble',
+      '--outer',
+      'Content-Type: multipart/alternative; boundary=inner',
+      '',
+      '--inner',
+      'Content-Type: text/plain; charset=utf-8',
+      'Content-Transfer-Encoding: quoted-printable',
+      '',
+      'Reset here: https://app.test/reset?token=3Dabc =',
+      'and ignore the rest.',
+      '--inner',
+      'Content-Type: text/html; charset=utf-8',
+      'Content-Transfer-Encoding: base64',
+      '',
+      Buffer.from(
+        '<p>Reset <a href="https://app.test/reset?a=1&amp;b=2">here</a></p>'
+      ).toString('base64'),
+      '--inner--',
+      '--outer',
+      'Content-Type: text/plain',
+      'Content-Disposition: attachment; filename="terms.txt"',
+      '',
+      'Attached terms',
+      '--outer--',
+    ].join('\r\n');
+
+    const message = MimeParser.parse(raw, envelope, 2);
+
+    expect(message.subject).toBe('Reset your password');
+    expect(message.text).toBe(
+      'Reset here: https://app.test/reset?token=abc and ignore the rest.'
+    );
+    expect(message.html).toContain('href="https://app.test/reset?a=1&amp;b=2"');
+    expect(Inbox.links(message)).toEqual(['https://app.test/reset?a=1&b=2']);
+  });
+
+  test('falls back to the HTML body as text', () => {
+    const message = MimeParser.parse(
+      [
+        'Content-Type: text/html',
+        '',
+        '<style>p { color: red }</style><p>Code:&nbsp;<b>1234</b></p><p>Tom &amp; Co</p>',
+      ].join('\r\n'),
+      envelope,
+      3
+    );
+
+    expect(message.text).toBe('Code: 1234\nTom & Co');
+    expect(Inbox.code(message, /Code: (\d+)/)).toBe('1234');
+  });
+
+  test('reads links from plain text and reports missing ones', () => {
+    const message = MimeParser.parse(
+      'Subject: Welcome\r\n\r\nVisit https://app.test/start, or https://docs.app.test.',
+      envelope,
+      4
+    );
+
+    expect(Inbox.links(message)).toEqual([
+      'https://app.test/start',
+      'https://docs.app.test',
+    ]);
+    expect(Inbox.link(message, 'docs')).toBe('https://docs.app.test');
+    expect(() => Inbox.link(message, /verify/)).toThrow(
+      'Email "Welcome" has no link matching /verify/'
+    );
+  });
+});
@@ -0,0 +1,78 @@
+import { expect, Page, test } from '@playwright/test';
+import { action, PageAction } from '../utils/PageAction';
+
+/**
+ * Page with one decorated action, as page objects declare them
+ */
+class SavePage {
+  readonly page: Page;
+
+  constructor(page: Page) {
+    this.page = page;
+  }
+
+  @action('Save {0}')
+  async save(name: string): Promise<void> {
+    await this.page.getByRole('textbox').fill(name);
+    await this.page.getByRole('button', { name: 'Save' }).click();
+  }
+}
+
+/**
+ * PageAction Test Suite
+ * Step titles, and actions run with before and after screenshots
+ */
+test.describe('PageAction', () => {
+  test('builds step titles from method names and templates', () => {
+    expect(PageAction.title('searchFor', ['truck'])).toBe('Search for "truck"');
+    expect(PageAction.title('openMenu', [])).toBe('Open menu');
+    expect(
+      PageAction.title('search', ['truck', 2], 'Search {0} page {1}')
+    ).toBe('Search truck page 2');
+    expect(PageAction.title('search', [], 'Search {0}')).toBe('Search {0}');
+    expect(
+      PageAction.title('search', ['truck'], (term: string) => `Find ${term}`)
+    ).toBe('Find truck');
+  });
+
+  test.describe('with screenshots', () => {
+    test.beforeEach(async ({ page }) => {
+      PageAction.configure({ screenshotBefore: true, screenshotAfter: true });
+      await page.setContent(`
+        <input aria-label="Name">
+        <button onclick="this.textContent = 'Saved ' + document.querySelector('input').value">
+          Save
+        </button>`);
+    });
+
+    test.afterEach(() => {
+      const screenshots = process.env.ACTION_SCREENSHOTS === 'true';
+      PageAction.configure({
+        screenshotBefore: screenshots,
+        screenshotAfter: screenshots,
+      });
+    });
+
+    test('runs the action', async ({ page }) => {
+      await PageAction.run({ page }, 'Click Save', () =>
+        page.getByRole('button').click()
+      );
+
+      await expect(page.getByRole('button')).toHaveText('Saved');
+    });
+
+    test('runs decorated methods', async ({ page }) => {
+      await new SavePage(page).save('draft');
+
+      await expect(page.getByRole('button')).toHaveText('Saved draft');
+    });
+
+    test('rethrows the action error', async ({ page }) => {
+      await expect(
+        PageAction.run({ page }, 'Fail', async () => {
+          throw new Error('action failed');
+        })
+      ).rejects.toThrow('action failed');
+    });
+  });
+});
@@ -0,0 +1,73 @@
+import { expect, test } from '@playwright/test';
+import * as fs from 'fs';
+import { Quarantine } from '../utils/Quarantine';
+import { buildTestId } from '../utils/TestIdentity';
+
+/**
+ * Quarantine Test Suite
+ * Loading the quarantine list and matching test ids against it
+ */
+test.describe('Quarantine', () => {
+  const testId = buildTestId('local', 'ExampleTestUI.ts', [
+    'Wikipedia Navigation Test',
+    'should navigate',
+  ]);
+
+  test('builds test ids from project, file and titles', () => {
+    expect(testId).toBe(
+      'local::ExampleTestUI.ts::Wikipedia Navigation Test > should navigate'
+    );
+  });
+
+  test('matches full ids and their trailing parts', () => {
+    const match = (test: string) =>
+      new Quarantine([{ test, reason: 'flaky' }]).isQuarantined(testId);
+
+    expect(match(testId)).toBe(true);
+    expect(
+      match('ExampleTestUI.ts::Wikipedia Navigation Test > should navigate')
+    ).toBe(true);
+    expect(match('Wikipedia Navigation Test > should navigate')).toBe(true);
+    expect(match('should navigate')).toBe(false);
+    expect(
+      match(
+        'pipeline::ExampleTestUI.ts::Wikipedia Navigation Test > should navigate'
+      )
+    ).toBe(false);
+  });
+
+  test('loads active entries and drops expired ones', () => {
+    const testInfo = test.info();
+    const filePath = testInfo.outputPath('quarantine.json');
+    fs.writeFileSync(
+      filePath,
+      JSON.stringify([
+        { test: 'active', reason: 'flaky', ticket: 'QA-1' },
+        { test: 'expired', reason: 'flaky', until: '2000-01-01' },
+        { test: 'future', reason: 'flaky', until: '2999-01-01' },
+      ])
+    );
+
+    const quarantine = Quarantine.load(filePath);
+
+    expect(quarantine.entries.map(entry => entry.test)).toEqual([
+      'active',
+      'future',
+    ]);
+    expect(quarantine.find('local::File.ts::active')?.ticket).toBe('QA-1');
+  });
+
+  test('treats a missing or unreadable file as an empty list', () => {
+    const testInfo = test.info();
+    const malformed = testInfo.outputPath('malformed.json');
+    const notAList = testInfo.outputPath('object.json');
+    fs.writeFileSync(malformed, '[{ "test": ');
+    fs.writeFileSync(notAList, '{ "test": "active" }');
+
+    expect(
+      Quarantine.load(testInfo.outputPath('missing.json')).entries
+    ).toEqual([]);
+    expect(Quarantine.load(malformed).entries).toEqual([]);
+    expect(Quarantine.load(notAList).entries).toEqual([]);
+  });
+});
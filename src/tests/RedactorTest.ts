@@ -0,0 +1,120 @@
+import { expect, test } from '@playwright/test';
+import { Redactor } from '../utils/Redactor';
+
+/**
+ * Redactor Test Suite
+ * Secret masking in strings and nested values
+ */
+test.describe('Redactor', () => {
+  // Keeps the secrets EnvironmentConfig registered for later tests
+  let restore: () => void;
+
+  test.beforeEach(() => {
+    restore = Redactor.snapshot();
+    Redactor.reset();
+  });
+
+  test.afterEach(() => {
+    restore();
+  });
+
+  test('masks registered secrets, longest first', () => {
+    Redactor.registerSecret('s3cret');
+    Redactor.registerSecret('s3cret-extended');
+    Redactor.registerSecret('abc'); // too short to register
+
+    expect(Redactor.redact('a s3cret-extended and a s3cret, abc')).toBe(
+      'a *** and a ***, abc'
+    );
+  });
+
+  test('registers secrets from variables named like secrets', () => {
+    Redactor.registerSecretsFrom({
+      POS_ADMIN_PASSWORD: 'hunter22',
+      POS_ADMIN_USERNAME: 'admin-user',
+    });
+
+    expect(Redactor.redact('admin-user / hunter22')).toBe('admin-user / ***');
+  });
+
+  test('masks default patterns and keeps their prefix', () => {
+    expect(Redactor.redact('Authorization: Bearer abc.def-123')).toBe(
+      'Authorization: Bearer ***'
+    );
+    expect(Redactor.redact('?token=abcd1234&page=2')).toBe('?token=***&page=2');
+    expect(Redactor.redact('{"password": "pa55word"}')).toBe(
+      '{"password": "***"}'
+    );
+    expect(Redactor.redact('jwt eyJhbGci.eyJzdWIi.c2lnbmF0dXJl')).toBe(
+      'jwt ***'
+    );
+  });
+
+  test('masks sensitive keys and HAR headers in nested values', () => {
+    const redacted = Redactor.redactValue({
+      user: 'alice',
+      password: 'pa55word',
+      headers: [
+        { name: 'Cookie', value: 'sid=1' },
+        { name: 'Accept', value: 'text/html' },
+      ],
+      nested: { note: 'token=abcd1234' },
+    });
+
+    expect(redacted).toEqual({
+      user: 'alice',
+      password: '***',
+      headers: [
+        { name: 'Cookie', value: '***' },
+        { name: 'Accept', value: 'text/html' },
+      ],
+      nested: { note: 'token=***' },
+    });
+  });
+
+  test('keeps dates and buffers and converts maps and sets', () => {
+    const date = new Date('2024-01-02T03:04:05Z');
+    const buffer = Buffer.from('raw');
+
+    const redacted = Redactor.redactValue({
+      date,
+      buffer,
+      map: new Map([['token', 'abcd1234']]),
+      set: new Set(['password=pa55word']),
+      url: new URL('https://example.com/?token=abcd1234'),
+    });
+
+    expect(redacted.date).toBe(date);
+    expect(redacted.buffer).toBe(buffer);
+    expect(redacted.map).toEqual({ token: '***' });
+    expect(redacted.set).toEqual(['password=***']);
+    expect(redacted.url).toBe('https://example.com/?token=***');
+  });
+
+  test('restores a snapshot after reset', () => {
+    Redactor.registerSecret('from-env-secret');
+    const restoreSecret = Redactor.snapshot();
+    Redactor.reset();
+    expect(Redactor.redact('from-env-secret')).toBe('from-env-secret');
+
+    restoreSecret();
+
+    expect(Redactor.redact('from-env-secret')).toBe('***');
+  });
+
+  test('masks error messages and marks circular references', () => {
+    const circular: Record<string, unknown> = { name: 'loop' };
+    circular.self = circular;
+
+    const redacted = Redactor.redactValue({
+      error: new Error('login failed for password=pa55word'),
+      circular,
+    });
+
+    expect(redacted.error).toBeInstanceOf(Error);
+    expect((redacted.error as Error).message).toBe(
+      'login failed for password=***'
+    );
+    expect(redacted.circular).toEqual({ name: 'loop', self: '[Circular]' });
+  });
+});
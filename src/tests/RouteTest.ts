@@ -0,0 +1,88 @@
+import { expect, test } from '@playwright/test';
+import { Route } from '../pages/Route';
+
+/**
+ * Route Test Suite
+ * Building page URLs from typed routes and recognising them again
+ */
+test.describe('Route', () => {
+  const base = 'https://qa.example.com/pos/v3/';
+  const article = new Route('wikipedia', 'wiki/:title').withQuery<{
+    oldid?: number;
+    lang?: string;
+  }>();
+
+  test('builds URLs under the base path with encoded values', () => {
+    expect(
+      article.url(base, {
+        title: 'Trucks & Buses',
+        query: { oldid: 42, lang: undefined },
+      })
+    ).toBe('https://qa.example.com/pos/v3/wiki/Trucks%20%26%20Buses?oldid=42');
+    expect(new Route('pos', 'login').url('https://qa.example.com/pos/v3')).toBe(
+      'https://qa.example.com/pos/v3/login'
+    );
+    expect(new Route('pos', '').url(base)).toBe(base);
+  });
+
+  test('keeps slashes in multi-segment params only', () => {
+    const wildcard = new Route('commons', 'wiki/:title*');
+
+    expect(article.url(base, { title: 'AC/DC' })).toBe(`${base}wiki/AC%2FDC`);
+    expect(wildcard.url(base, { title: 'File:A b/c.jpg' })).toBe(
+      `${base}wiki/File%3AA%20b/c.jpg`
+    );
+  });
+
+  test('requires every path param', () => {
+    expect(() => article.url(base)).toThrow(
+      'Missing value for :title in route "wiki/:title"'
+    );
+  });
+
+  test('matches the route under the base URL only', () => {
+    expect(article.matches(`${base}wiki/Truck?oldid=1#History`, base)).toBe(
+      true
+    );
+    expect(article.matches(`${base}wiki/Truck/`, base)).toBe(true);
+    expect(article.matches(`${base}wiki/Truck/History`, base)).toBe(false);
+    expect(article.matches('https://qa.example.com/wiki/Truck', base)).toBe(
+      false
+    );
+    expect(
+      article.matches('https://prod.example.com/pos/v3/wiki/Truck', base)
+    ).toBe(false);
+    expect(new Route('pos', '').matches(base, base)).toBe(true);
+    expect(new Route('pos', '').matches(`${base}login`, base)).toBe(false);
+  });
+
+  test('matches slashes in multi-segment params', () => {
+    const wildcard = new Route('commons', 'wiki/:title*');
+
+    expect(wildcard.matches(`${base}wiki/File:A/B.jpg`, base)).toBe(true);
+    expect(wildcard.matches(`${base}wiki/`, base)).toBe(false);
+  });
+
+  test('matches path suffixes anywhere when configured', () => {
+    const login = new Route('pos', 'login', { matchSuffix: true });
+
+    expect(login.matches(`${base}login`, base)).toBe(true);
+    expect(login.matches('https://qa.example.com/auth/login/', base)).toBe(
+      true
+    );
+    expect(login.matches('https://sso.example.com/login?next=/', base)).toBe(
+      true
+    );
+    expect(login.matches(`${base}relogin`, base)).toBe(false);
+    expect(login.matches(`${base}login/help`, base)).toBe(false);
+  });
+
+  test('resolves paths against base URLs with a path', () => {
+    expect(Route.resolve('https://qa.example.com/pos/v3', '/orders/1')).toBe(
+      'https://qa.example.com/pos/v3/orders/1'
+    );
+    expect(Route.resolve(base, 'https://other.example.com/x')).toBe(
+      'https://other.example.com/x'
+    );
+  });
+});
@@ -0,0 +1,51 @@
+import { expect, test } from '@playwright/test';
+import {
+  JsonSchema,
+  SchemaValidationError,
+  SchemaValidator,
+} from '../api/SchemaValidator';
+import {
+  Post,
+  postSchema,
+} from '../api/jsonplaceholder/JsonPlaceholderSchemas';
+
+/**
+ * SchemaValidator Test Suite
+ * Validation results and mismatch messages, without a browser or network
+ */
+test.describe('SchemaValidator', () => {
+  const post = { userId: 1, id: 7, title: 'Hello', body: 'World' };
+
+  test('returns data that matches the schema', () => {
+    expect(SchemaValidator.validate(postSchema, post, 'Post')).toBe(post);
+  });
+
+  test('lists every mismatch with its path', () => {
+    const invalid = { userId: '1', id: 7, body: 'World', extra: true };
+
+    let error: SchemaValidationError | undefined;
+    try {
+      SchemaValidator.validate(postSchema, invalid, 'GET /posts/7');
+    } catch (thrown) {
+      error = thrown as SchemaValidationError;
+    }
+
+    expect(error).toBeInstanceOf(SchemaValidationError);
+    expect(error?.message).toContain('GET /posts/7 does not match schema');
+    expect(error?.mismatches).toEqual(
+      expect.arrayContaining([
+        '$.userId: expected integer, got string ("1")',
+        '$: missing required property "title"',
+        '$: unexpected property "extra"',
+      ])
+    );
+  });
+
+  test('reports nested paths in arrays', () => {
+    const schema: JsonSchema<Post[]> = { type: 'array', items: postSchema };
+
+    expect(() =>
+      SchemaValidator.validate(schema, [post, { ...post, id: 'x' }], 'Posts')
+    ).toThrow('$.1.id: expected integer, got string ("x")');
+  });
+});
@@ -0,0 +1,148 @@
+import { expect, test } from '@playwright/test';
+import * as net from 'net';
+import { SmtpCaptureServer } from '../email/SmtpCaptureServer';
+
+/**
+ * Line-based SMTP client that returns each complete reply, multi-line
+ * replies joined with newlines
+ */
+class SmtpClient {
+  private readonly socket: net.Socket;
+  private buffer = '';
+  private readonly replies: string[] = [];
+  private waiting?: () => void;
+
+  private constructor(socket: net.Socket) {
+    this.socket = socket;
+    socket.setEncoding('utf-8');
+    socket.on('data', (chunk: string) => {
+      this.buffer += chunk;
+      // A reply ends with a line whose code is followed by a space
+      let match: RegExpExecArray | null;
+      while ((match = /^(?:\d{3}-.*\r\n)*\d{3} .*\r\n/.exec(this.buffer))) {
+        this.replies.push(match[0].trimEnd());
+        this.buffer = this.buffer.slice(match[0].length);
+      }
+      this.waiting?.();
+    });
+  }
+
+  static async connect(port: number): Promise<SmtpClient> {
+    const socket = net.connect(port, '127.0.0.1');
+    await new Promise(resolve => socket.once('connect', resolve));
+    return new SmtpClient(socket);
+  }
+
+  async reply(): Promise<string> {
+    while (this.replies.length === 0) {
+      await new Promise<void>(resolve => (this.waiting = resolve));
+    }
+    return this.replies.shift()!;
+  }
+
+  /**
+   * Send a line without waiting, as for message content
+   */
+  write(line: string): void {
+    this.socket.write(`${line}\r\n`);
+  }
+
+  async send(line: string): Promise<string> {
+    this.write(line);
+    return this.reply();
+  }
+
+  close(): void {
+    this.socket.destroy();
+  }
+}
+
+/**
+ * SmtpCaptureServer Test Suite
+ * The SMTP dialogue over a real socket, as a mail library would run it
+ */
+test.describe('SmtpCaptureServer', () => {
+  let server: SmtpCaptureServer;
+  let client: SmtpClient;
+
+  test.beforeEach(async () => {
+    server = new SmtpCaptureServer();
+    client = await SmtpClient.connect(await server.start());
+    expect(await client.reply()).toMatch(/^220 /);
+  });
+
+  test.afterEach(async () => {
+    client.close();
+    await server.stop();
+  });
+
+  test('advertises its extensions and refuses STARTTLS', async () => {
+    const ehlo = await client.send('EHLO client.test');
+
+    expect(ehlo.split('\r\n')).toContain('250 AUTH PLAIN LOGIN');
+    expect(await client.send('STARTTLS')).toMatch(/^454 /);
+    expect(await client.send('VRFY someone')).toMatch(/^502 /);
+  });
+
+  test('captures a message with envelope recipients', async () => {
+    const received: number[] = [];
+    server.onMessage(message => received.push(message.id));
+
+    await client.send('EHLO client.test');
+    expect(await client.send('DATA')).toMatch(/^503 /);
+    expect(await client.send('MAIL FROM:<app@app.test> SIZE=100')).toBe(
+      '250 OK'
+    );
+    await client.send('RCPT TO:<User@Inbox.test>');
+    await client.send('RCPT TO:<bcc@inbox.test>');
+    expect(await client.send('DATA')).toMatch(/^354 /);
+    for (const line of ['Subject: Hello', '', 'Line one', '..dotted']) {
+      client.write(line);
+    }
+    expect(await client.send('.')).toBe('250 OK: queued as 1');
+
+    const [message] = server.messages();
+    expect(message).toMatchObject({
+      id: 1,
+      from: 'app@app.test',
+      to: ['user@inbox.test', 'bcc@inbox.test'],
+      subject: 'Hello',
+      text: 'Line one\r\n.dotted',
+    });
+    expect(received).toEqual([1]);
+    expect(await client.send('QUIT')).toMatch(/^221 /);
+  });
+
+  test('accepts AUTH PLAIN with an initial response', async () => {
+    const credentials = Buffer.from('\0user\0secret').toString('base64');
+
+    expect(await client.send(`AUTH PLAIN ${credentials}`)).toMatch(/^235 /);
+  });
+
+  test('prompts for AUTH PLAIN credentials when not given', async () => {
+    expect(await client.send('AUTH PLAIN')).toBe('334');
+    expect(
+      await client.send(Buffer.from('\0user\0secret').toString('base64'))
+    ).toMatch(/^235 /);
+    expect(await client.send('NOOP')).toBe('250 OK');
+  });
+
+  test('prompts for the AUTH LOGIN username and password', async () => {
+    expect(await client.send('AUTH LOGIN')).toBe('334 VXNlcm5hbWU6');
+    expect(await client.send('dXNlcg==')).toBe('334 UGFzc3dvcmQ6');
+    expect(await client.send('c2VjcmV0')).toMatch(/^235 /);
+  });
+
+  test('only prompts for the password after AUTH LOGIN <username>', async () => {
+    expect(await client.send('AUTH LOGIN dXNlcg==')).toBe('334 UGFzc3dvcmQ6');
+    expect(await client.send('c2VjcmV0')).toMatch(/^235 /);
+    expect(await client.send('NOOP')).toBe('250 OK');
+  });
+
+  test('lets the client cancel AUTH and rejects other mechanisms', async () => {
+    await client.send('AUTH LOGIN');
+    expect(await client.send('*')).toMatch(/^501 /);
+    expect(await client.send('AUTH CRAM-MD5')).toMatch(/^504 /);
+    expect(await client.send('NOOP')).toBe('250 OK');
+  });
+});
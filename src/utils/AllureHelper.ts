@@ -1,5 +1,6 @@
 import { Page } from '@playwright/test';
-import allure from 'allure-js-commons';
+import * as allure from 'allure-js-commons';
+import { Redactor } from './Redactor';
 
 /**
  * Allure Helper utility for enhanced reporting with step screenshots
@@ -30,10 +31,7 @@ export class AllureHelper {
       try {
         // Take screenshot before action
         if (screenshotBefore) {
-          const beforeScreenshot = await page.screenshot({
-            fullPage: true,
-            quality: 90,
-          });
+          const beforeScreenshot = await page.screenshot({ fullPage: true });
           await allure.attachment(
             `${stepName} - Before`,
             beforeScreenshot,
@@ -46,10 +44,7 @@ export class AllureHelper {
 
         // Take screenshot after successful action
         if (screenshotAfter) {
-          const afterScreenshot = await page.screenshot({
-            fullPage: true,
-            quality: 90,
-          });
+          const afterScreenshot = await page.screenshot({ fullPage: true });
           await allure.attachment(
             `${stepName} - After`,
             afterScreenshot,
@@ -60,10 +55,7 @@ export class AllureHelper {
         // Take screenshot on error
         if (screenshotOnError) {
           try {
-            const errorScreenshot = await page.screenshot({
-              fullPage: true,
-              quality: 90,
-            });
+            const errorScreenshot = await page.screenshot({ fullPage: true });
             await allure.attachment(
               `${stepName} - Error`,
               errorScreenshot,
@@ -107,10 +99,7 @@ export class AllureHelper {
     name: string,
     description?: string
   ): Promise<void> {
-    const screenshot = await page.screenshot({
-      fullPage: true,
-      quality: 90,
-    });
+    const screenshot = await page.screenshot({ fullPage: true });
     await allure.attachment(name, screenshot, 'image/png');
 
     if (description) {
@@ -129,6 +118,17 @@ export class AllureHelper {
     }
   }
 
+  /**
+   * Add a single test parameter
+   */
+  static async addParameter(name: string, value: string): Promise<void> {
+    try {
+      await allure.parameter(name, value);
+    } catch (error) {
+      console.warn(`Failed to add parameter ${name}:`, error);
+    }
+  }
+
   /**
    * Add test description and labels
    */
@@ -185,32 +185,56 @@ export class AllureHelper {
     try {
       const fs = await import('fs/promises');
       const logContent = await fs.readFile(filePath, 'utf-8');
-      await allure.attachment(name, logContent, 'text/plain');
+      await allure.attachment(name, Redactor.redact(logContent), 'text/plain');
     } catch (error) {
       console.warn(`Failed to attach log file ${filePath}:`, error);
     }
   }
 
   /**
-   * Attach network HAR file for detailed network analysis
+   * Attach plain text content
+   */
+  static async attachText(name: string, content: string): Promise<void> {
+    try {
+      await allure.attachment(name, Redactor.redact(content), 'text/plain');
+    } catch (error) {
+      console.warn(`Failed to attach ${name}:`, error);
+    }
+  }
+
+  /**
+   * Attach a value as pretty-printed JSON
+   */
+  static async attachJson(name: string, data: unknown): Promise<void> {
+    try {
+      await allure.attachment(
+        name,
+        JSON.stringify(Redactor.redactValue(data), null, 2),
+        'application/json'
+      );
+    } catch (error) {
+      console.warn(`Failed to attach ${name}:`, error);
+    }
+  }
+
+  /**
+   * Attach a recorded network HAR file for detailed network analysis,
+   * with secrets in headers, cookies and bodies masked
    */
   static async attachHAR(
-    page: Page,
+    harPath: string,
     name: string = 'Network HAR'
   ): Promise<void> {
     try {
-      // Enable tracing if not already enabled
-      const context = page.context();
-
-      // Stop tracing and save HAR
-      const harBuffer = await context.storageState();
+      const fs = await import('fs/promises');
+      const har = JSON.parse(await fs.readFile(harPath, 'utf-8'));
       await allure.attachment(
         name,
-        JSON.stringify(harBuffer, null, 2),
-        'application/json'
+        JSON.stringify(Redactor.redactValue(har), null, 2),
+        { contentType: 'application/json', fileExtension: 'har' }
       );
     } catch (error) {
-      console.warn('Failed to attach HAR file:', error);
+      console.warn(`Failed to attach HAR file ${harPath}:`, error);
     }
   }
 }
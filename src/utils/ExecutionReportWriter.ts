@@ -0,0 +1,285 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { HealedLocator } from '../locators/HealingLocator';
+import { OverlayDismissal } from '../overlays/OverlayGuard';
+import { PerformanceMetrics } from '../performance/PerformanceCapture';
+import { Redactor } from './Redactor';
+
+export interface ReportAttachment {
+  name: string;
+  contentType: string;
+  path?: string;
+}
+
+export interface ReportError {
+  message: string;
+  stack?: string;
+}
+
+export interface ReportStep {
+  title: string;
+  category?: string;
+  startTime: string;
+  endTime?: string;
+  duration?: number;
+  status: string;
+  error?: string;
+  steps?: ReportStep[];
+  attachments?: ReportAttachment[];
+}
+
+export interface ReportAttempt {
+  retry: number;
+  status: string;
+  startTime: string;
+  endTime?: string;
+  duration?: number;
+  error?: ReportError;
+  steps: ReportStep[];
+  attachments: ReportAttachment[];
+  performance?: PerformanceMetrics[];
+  healedLocators?: HealedLocator[];
+  overlays?: OverlayDismissal[];
+}
+
+export interface ReportTest {
+  id: string;
+  title: string;
+  titlePath: string[];
+  suite: string;
+  project: string;
+  file?: string;
+  line?: number;
+  /** passed, failed, flaky (passed on retry) or skipped */
+  outcome: string;
+  /** Present when the test's failures do not fail the build */
+  quarantine?: { reason: string; ticket?: string };
+  /** 0 (stable) to 1, from the run history */
+  flakinessScore?: number;
+  /** Total across all attempts */
+  duration: number;
+  attempts: ReportAttempt[];
+}
+
+export interface ReportSuite {
+  name: string;
+  project: string;
+  file: string;
+  startTime: string;
+  endTime?: string;
+  duration?: number;
+  total: number;
+  passed: number;
+  failed: number;
+  flaky: number;
+  skipped: number;
+  tests: ReportTest[];
+}
+
+export interface ExecutionReport {
+  name: string;
+  status: string;
+  startTime: string;
+  endTime: string;
+  duration: number;
+  totals: {
+    total: number;
+    passed: number;
+    failed: number;
+    flaky: number;
+    skipped: number;
+  };
+  suites: ReportSuite[];
+  /** Overlays dismissed across the run, most frequent first */
+  overlays: OverlayDismissal[];
+}
+
+/**
+ * Writes the execution report collected by PlaywrightTestListener as JSON
+ * for dashboards, and as a self-contained HTML summary for people
+ */
+export class ExecutionReportWriter {
+  /**
+   * Write `<name>.json` and `<name>.html` to the output directory, with
+   * secrets masked (step titles such as `Fill "<value>"` carry input values)
+   * @returns the paths of the written files
+   */
+  static write(
+    report: ExecutionReport,
+    outputDir: string
+  ): { json: string; html: string } {
+    fs.mkdirSync(outputDir, { recursive: true });
+    const json = path.join(outputDir, `${report.name}.json`);
+    const html = path.join(outputDir, `${report.name}.html`);
+    const redacted = Redactor.redactValue(report);
+
+    fs.writeFileSync(json, JSON.stringify(redacted, null, 2));
+    fs.writeFileSync(html, ExecutionReportWriter.renderHtml(redacted));
+    return { json, html };
+  }
+
+  /**
+   * Render the report as a single HTML page with inline styles
+   */
+  static renderHtml(report: ExecutionReport): string {
+    const { totals } = report;
+    const suites = report.suites
+      .map(suite => ExecutionReportWriter.renderSuite(suite))
+      .join('\n');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${ExecutionReportWriter.escape(report.name)}</title>
+<style>
+  body { font-family: -apple-system, Segoe UI, Roboto, sans-serif; margin: 24px; color: #222; }
+  h1 { margin-bottom: 4px; }
+  .summary span { display: inline-block; margin-right: 16px; font-weight: 600; }
+  .passed { color: #2e7d32; } .failed, .timedOut, .interrupted { color: #c62828; }
+  .skipped { color: #757575; } .flaky { color: #ef6c00; }
+  details { margin: 4px 0 4px 16px; } summary { cursor: pointer; }
+  table { border-collapse: collapse; width: 100%; margin: 8px 0 16px; }
+  th, td { border: 1px solid #ddd; padding: 6px 8px; text-align: left; vertical-align: top; }
+  th { background: #f5f5f5; }
+  pre { white-space: pre-wrap; background: #fafafa; padding: 8px; margin: 4px 0; }
+  .muted { color: #757575; font-size: 0.9em; }
+</style>
+</head>
+<body>
+<h1>${ExecutionReportWriter.escape(report.name)}</h1>
+<p class="muted">${report.startTime} &ndash; ${report.endTime} (${report.duration}ms)</p>
+<div class="summary">
+  <span class="${report.status}">Status: ${ExecutionReportWriter.escape(report.status.toUpperCase())}</span>
+  <span>Total: ${totals.total}</span>
+  <span class="passed">Passed: ${totals.passed}</span>
+  <span class="failed">Failed: ${totals.failed}</span>
+  <span class="flaky">Flaky: ${totals.flaky}</span>
+  <span class="skipped">Skipped: ${totals.skipped}</span>
+</div>
+${
+  report.overlays.length
+    ? `<p class="muted">🧹 Overlays dismissed: ${report.overlays
+        .map(o => `${ExecutionReportWriter.escape(o.name)} ${o.count}x`)
+        .join(', ')}</p>`
+    : ''
+}
+${suites}
+</body>
+</html>
+`;
+  }
+
+  private static renderSuite(suite: ReportSuite): string {
+    const rows = suite.tests
+      .map(test => ExecutionReportWriter.renderTest(test))
+      .join('\n');
+    const project = suite.project
+      ? ` <span class="muted">[${ExecutionReportWriter.escape(suite.project)}]</span>`
+      : '';
+    return `<h2>${ExecutionReportWriter.escape(suite.name)}${project}</h2>
+<p class="muted">${ExecutionReportWriter.escape(suite.file)} &ndash; Total: ${suite.total}, Passed: ${suite.passed}, Failed: ${suite.failed}, Flaky: ${suite.flaky}, Skipped: ${suite.skipped}, Duration: ${suite.duration ?? 0}ms</p>
+<table>
+<tr><th>Test</th><th>Outcome</th><th>Attempts</th><th>Duration</th><th>Details</th></tr>
+${rows}
+</table>`;
+  }
+
+  private static renderTest(test: ReportTest): string {
+    const location = test.file
+      ? `<div class="muted">${ExecutionReportWriter.escape(test.file)}${test.line ? `:${test.line}` : ''}</div>`
+      : '';
+    const attempts = test.attempts
+      .map(attempt =>
+        ExecutionReportWriter.renderAttempt(attempt, test.attempts.length > 1)
+      )
+      .join('');
+    const quarantine = test.quarantine
+      ? `<div class="muted" title="${ExecutionReportWriter.escape(test.quarantine.reason)}">🚧 quarantined</div>`
+      : '';
+    const flakiness = test.flakinessScore
+      ? `<div class="muted">flakiness ${test.flakinessScore}</div>`
+      : '';
+
+    return `<tr>
+<td>${ExecutionReportWriter.escape(test.title)}${location}</td>
+<td class="${test.outcome}">${ExecutionReportWriter.escape(test.outcome)}${quarantine}${flakiness}</td>
+<td>${test.attempts.length}</td>
+<td>${test.duration}ms</td>
+<td>${attempts}</td>
+</tr>`;
+  }
+
+  private static renderAttempt(
+    attempt: ReportAttempt,
+    showHeading: boolean
+  ): string {
+    const error = attempt.error
+      ? `<pre class="failed">${ExecutionReportWriter.escape(attempt.error.stack ?? attempt.error.message)}</pre>`
+      : '';
+    const steps = attempt.steps.length
+      ? `<details><summary>Steps (${attempt.steps.length})</summary>${ExecutionReportWriter.renderSteps(attempt.steps)}</details>`
+      : '';
+    const attachments = attempt.attachments.length
+      ? `<details><summary>Attachments (${attempt.attachments.length})</summary><ul>${attempt.attachments
+          .map(
+            a =>
+              `<li>${ExecutionReportWriter.escape(a.name)} <span class="muted">${ExecutionReportWriter.escape(a.path ?? a.contentType)}</span></li>`
+          )
+          .join('')}</ul></details>`
+      : '';
+    const performance = attempt.performance?.length
+      ? `<details><summary>Performance (${attempt.performance.length})</summary><ul>${attempt.performance
+          .map(
+            m =>
+              `<li>${ExecutionReportWriter.escape(m.page)} <span class="muted">load ${m.navigation.load}ms, FCP ${m.paint.firstContentfulPaint ?? '-'}ms, LCP ${m.paint.largestContentfulPaint ?? '-'}ms, ${m.longTasks.count} long tasks, ${m.resources.count} resources</span></li>`
+          )
+          .join('')}</ul></details>`
+      : '';
+    const healed = attempt.healedLocators?.length
+      ? `<details><summary>Healed locators (${attempt.healedLocators.length})</summary><ul>${attempt.healedLocators
+          .map(
+            h =>
+              `<li>🩹 ${ExecutionReportWriter.escape(`${h.owner}.${h.locator}`)} <span class="muted">${ExecutionReportWriter.escape(h.primary)} &rarr; ${ExecutionReportWriter.escape(h.healedWith)}</span></li>`
+          )
+          .join('')}</ul></details>`
+      : '';
+    const overlays = attempt.overlays?.length
+      ? `<div class="muted">🧹 ${attempt.overlays
+          .map(o => `${ExecutionReportWriter.escape(o.name)} ${o.count}x`)
+          .join(', ')}</div>`
+      : '';
+    const details = `${error}${steps}${attachments}${performance}${healed}${overlays}`;
+
+    if (!showHeading) {
+      return details;
+    }
+    return `<details><summary>Attempt ${attempt.retry + 1}: <span class="${attempt.status}">${ExecutionReportWriter.escape(attempt.status)}</span> <span class="muted">${attempt.duration ?? 0}ms</span></summary>${details}</details>`;
+  }
+
+  private static renderSteps(steps: ReportStep[]): string {
+    return `<ul>${steps
+      .map(
+        step =>
+          `<li><span class="${step.status}">${ExecutionReportWriter.escape(step.title)}</span> <span class="muted">${step.category ? `${ExecutionReportWriter.escape(step.category)} &middot; ` : ''}${step.duration ?? 0}ms</span>${
+            step.error
+              ? `<pre class="failed">${ExecutionReportWriter.escape(step.error)}</pre>`
+              : ''
+          }${
+            step.attachments?.length
+              ? `<ul>${step.attachments.map(a => `<li class="muted">📎 ${ExecutionReportWriter.escape(a.name)}</li>`).join('')}</ul>`
+              : ''
+          }${step.steps?.length ? ExecutionReportWriter.renderSteps(step.steps) : ''}</li>`
+      )
+      .join('')}</ul>`;
+  }
+
+  private static escape(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+}
@@ -1,3 +1,8 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Redactor } from './Redactor';
+
 export enum LogLevel {
   DEBUG = 0,
   INFO = 1,
@@ -12,6 +17,7 @@ export interface LoggerConfig {
   enableColors?: boolean;
   enableFileLogging?: boolean;
   logFile?: string;
+  fileFormat?: 'text' | 'json';
   maxLineLength?: number;
   context?: string;
 }
@@ -32,6 +38,247 @@ export interface LogEntry {
   message: string;
   context?: string;
   metadata?: LogMetadata;
+  testId?: string;
+  workerIndex?: number;
+}
+
+/**
+ * Turns a log entry into a single line of output
+ */
+export interface LogFormatter {
+  format(entry: LogEntry): string;
+}
+
+/**
+ * Delivers log entries to a destination (console, file, ...)
+ */
+export interface LogTransport {
+  write(entry: LogEntry): void;
+}
+
+/**
+ * Get level name
+ */
+function getLevelName(level: LogLevel): string {
+  switch (level) {
+    case LogLevel.DEBUG:
+      return 'DEBUG';
+    case LogLevel.INFO:
+      return 'INFO';
+    case LogLevel.WARN:
+      return 'WARN';
+    case LogLevel.ERROR:
+      return 'ERROR';
+    default:
+      return 'UNKNOWN';
+  }
+}
+
+/**
+ * Convert metadata into JSON-safe data. Errors keep their name, message and
+ * stack; circular references are replaced rather than throwing.
+ */
+export function serializeMetadata(
+  metadata: LogMetadata,
+  seen: WeakSet<object> = new WeakSet()
+): unknown {
+  if (metadata instanceof Error) {
+    return {
+      name: metadata.name,
+      message: metadata.message,
+      stack: metadata.stack,
+    };
+  }
+  if (typeof metadata === 'bigint' || typeof metadata === 'function') {
+    return String(metadata);
+  }
+  if (metadata === null || typeof metadata !== 'object') {
+    return metadata;
+  }
+  if (seen.has(metadata)) {
+    return '[Circular]';
+  }
+  seen.add(metadata);
+  const serialized = Array.isArray(metadata)
+    ? metadata.map(item => serializeMetadata(item, seen))
+    : Object.fromEntries(
+        Object.entries(metadata).map(([key, value]) => [
+          key,
+          serializeMetadata(value, seen),
+        ])
+      );
+  // Only ancestors count as circular; shared references are serialized again
+  seen.delete(metadata);
+  return serialized;
+}
+
+/**
+ * Plain text lines, as written to log files
+ */
+export class TextFormatter implements LogFormatter {
+  format(entry: LogEntry): string {
+    const timestamp = entry.timestamp.toISOString();
+    const level = getLevelName(entry.level);
+    const context = entry.context ? `[${entry.context}] ` : '';
+    const metadata =
+      entry.metadata !== undefined
+        ? ` ${JSON.stringify(serializeMetadata(entry.metadata))}`
+        : '';
+    return `${timestamp} ${level} ${context}${entry.message}${metadata}`;
+  }
+}
+
+/**
+ * One JSON object per line, for machine consumption
+ */
+export class JsonLinesFormatter implements LogFormatter {
+  format(entry: LogEntry): string {
+    return JSON.stringify({
+      timestamp: entry.timestamp.toISOString(),
+      level: getLevelName(entry.level),
+      context: entry.context,
+      testId: entry.testId,
+      workerIndex: entry.workerIndex,
+      message: entry.message,
+      metadata: serializeMetadata(entry.metadata),
+    });
+  }
+}
+
+/**
+ * Colored, icon-prefixed lines for the console
+ */
+export class ConsoleFormatter implements LogFormatter {
+  private readonly enableTimestamps: boolean;
+  private readonly enableColors: boolean;
+
+  constructor(
+    options: { enableTimestamps?: boolean; enableColors?: boolean } = {}
+  ) {
+    this.enableTimestamps = options.enableTimestamps ?? true;
+    this.enableColors = options.enableColors ?? true;
+  }
+
+  format(entry: LogEntry): string {
+    const timestamp = this.enableTimestamps
+      ? `[${entry.timestamp.toISOString()}] `
+      : '';
+
+    const icon = ConsoleFormatter.getLevelIcon(entry.level);
+    const colorCode = this.getColorCode(entry.level);
+    const resetCode = this.enableColors ? '\x1b[0m' : '';
+    const context = entry.context ? `[${entry.context}] ` : '';
+    const message = entry.message;
+
+    // Remove the space between icon and context
+    return `${timestamp}${colorCode}${icon}${context}${message}${resetCode}`;
+  }
+
+  /**
+   * Get color codes for console output
+   */
+  private getColorCode(level: LogLevel): string {
+    if (!this.enableColors) return '';
+
+    switch (level) {
+      case LogLevel.DEBUG:
+        return '\x1b[36m'; // Cyan
+      case LogLevel.INFO:
+        return '\x1b[32m'; // Green
+      case LogLevel.WARN:
+        return '\x1b[33m'; // Yellow
+      case LogLevel.ERROR:
+        return '\x1b[31m'; // Red
+      default:
+        return '';
+    }
+  }
+
+  /**
+   * Get level icon
+   */
+  private static getLevelIcon(level: LogLevel): string {
+    switch (level) {
+      case LogLevel.DEBUG:
+        return '🔍';
+      case LogLevel.INFO:
+        return 'ℹ️';
+      case LogLevel.WARN:
+        return '⚠️';
+      case LogLevel.ERROR:
+        return '❌';
+      default:
+        return '';
+    }
+  }
+}
+
+/**
+ * Writes entries to stdout
+ */
+export class ConsoleTransport implements LogTransport {
+  private readonly formatter: LogFormatter;
+
+  constructor(formatter: LogFormatter = new ConsoleFormatter()) {
+    this.formatter = formatter;
+  }
+
+  write(entry: LogEntry): void {
+    // Use console.log but ensure message doesn't contain extra newlines
+    console.log(this.formatter.format(entry));
+  }
+}
+
+/**
+ * Appends entries to a file, creating its directory on first write
+ */
+export class FileTransport implements LogTransport {
+  readonly filePath: string;
+  private readonly formatter: LogFormatter;
+  private directoryReady = false;
+
+  constructor(filePath: string, formatter: LogFormatter = new TextFormatter()) {
+    this.filePath = filePath;
+    this.formatter = formatter;
+  }
+
+  write(entry: LogEntry): void {
+    try {
+      if (!this.directoryReady) {
+        fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+        this.directoryReady = true;
+      }
+      fs.appendFileSync(this.filePath, `${this.formatter.format(entry)}\n`);
+    } catch (error) {
+      // Silently fail if file logging fails
+      console.error(
+        `Failed to write log to file: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+}
+
+/**
+ * Writes only the entries logged while a given test was running to that
+ * test's own file
+ */
+export class TestFileTransport extends FileTransport {
+  readonly testId: string;
+
+  constructor(
+    testId: string,
+    filePath: string,
+    formatter: LogFormatter = new TextFormatter()
+  ) {
+    super(filePath, formatter);
+    this.testId = testId;
+  }
+
+  write(entry: LogEntry): void {
+    if (entry.testId === this.testId) {
+      super.write(entry);
+    }
+  }
 }
 
 export class Logger {
@@ -41,13 +288,21 @@ export class Logger {
     enableColors: true,
     enableFileLogging: false,
     logFile: 'application.log',
+    fileFormat: 'text',
     maxLineLength: 200,
     context: 'APP',
   };
 
   private static logBuffer: LogEntry[] = [];
-  // Use Node's FS type when available; keep as unknown to avoid `any` lint
-  private static fs: typeof import('fs') | null = null;
+  // Entries of each running test, kept apart so they can be attached to it
+  private static testLogBuffers: Map<string, LogEntry[]> = new Map();
+  // Transports derived from globalConfig, rebuilt on every configure()
+  private static configuredTransports: LogTransport[] = [
+    new ConsoleTransport(),
+  ];
+  private static customTransports: LogTransport[] = [];
+  private static testIdStorage = new AsyncLocalStorage<string>();
+  private static testIdResolver: (() => string | undefined) | null = null;
   private static initialized = false;
 
   private context: string;
@@ -87,6 +342,14 @@ export class Logger {
       envConfig.logFile = process.env.LOG_FILE;
     }
 
+    // Set file format from environment
+    if (
+      process.env.LOG_FORMAT === 'json' ||
+      process.env.LOG_FORMAT === 'text'
+    ) {
+      envConfig.fileFormat = process.env.LOG_FORMAT;
+    }
+
     // Apply environment configuration
     if (Object.keys(envConfig).length > 0) {
       Logger.configure({
@@ -103,146 +366,94 @@ export class Logger {
   static configure(config: Partial<LoggerConfig>): void {
     Logger.globalConfig = { ...Logger.globalConfig, ...config };
 
-    // Initialize file system if file logging is enabled
-    if (Logger.globalConfig.enableFileLogging && !Logger.fs) {
-      try {
-        // eslint-disable-next-line @typescript-eslint/no-require-imports
-        Logger.fs = require('fs');
-      } catch (_error) {
-        console.warn('File system not available for logging');
-      }
+    const { enableTimestamps, enableColors, enableFileLogging, logFile } =
+      Logger.globalConfig;
+    Logger.configuredTransports = [
+      new ConsoleTransport(
+        new ConsoleFormatter({ enableTimestamps, enableColors })
+      ),
+    ];
+    if (enableFileLogging) {
+      Logger.configuredTransports.push(
+        new FileTransport(logFile, Logger.createFileFormatter())
+      );
     }
   }
 
   /**
-   * Create a logger instance for a specific context/class
+   * Formatter matching the configured file format
    */
-  static for(context: string): Logger {
-    return new Logger(context);
+  static createFileFormatter(): LogFormatter {
+    return Logger.globalConfig.fileFormat === 'json'
+      ? new JsonLinesFormatter()
+      : new TextFormatter();
   }
 
   /**
-   * Normalize output to prevent line breaks and excessive whitespace
+   * Add a transport that receives every entry alongside the configured ones
    */
-  static normalizeMessage(message: string): string {
-    if (typeof message !== 'string') {
-      message = String(message);
-    }
-    return (
-      message
-        .trim()
-        .replace(/\r\n/g, ' ') // Windows line endings
-        .replace(/\r/g, ' ') // Mac line endings
-        .replace(/\n/g, ' ') // Unix line endings
-        .replace(/\t/g, ' ') // Tabs
-        .replace(/\s+/g, ' ') // Multiple spaces
-        // .replace(/[\x00-\x1F\x7F]/g, ' ') // Control characters
-        .trim()
-        .substring(0, Logger.globalConfig.maxLineLength)
-    );
+  static addTransport(transport: LogTransport): void {
+    Logger.customTransports.push(transport);
   }
 
   /**
-   * Get color codes for console output
+   * Remove a transport previously added with addTransport
    */
-  private static getColorCode(level: LogLevel): string {
-    if (!Logger.globalConfig.enableColors) return '';
-
-    switch (level) {
-      case LogLevel.DEBUG:
-        return '\x1b[36m'; // Cyan
-      case LogLevel.INFO:
-        return '\x1b[32m'; // Green
-      case LogLevel.WARN:
-        return '\x1b[33m'; // Yellow
-      case LogLevel.ERROR:
-        return '\x1b[31m'; // Red
-      default:
-        return '';
-    }
+  static removeTransport(transport: LogTransport): void {
+    Logger.customTransports = Logger.customTransports.filter(
+      t => t !== transport
+    );
   }
 
   /**
-   * Get reset color code
+   * Register how to find the id of the currently running test (e.g. from
+   * Playwright's test info). Used when no id was set with runWithTestId.
    */
-  private static getResetCode(): string {
-    return Logger.globalConfig.enableColors ? '\x1b[0m' : '';
+  static setTestIdResolver(resolver: (() => string | undefined) | null): void {
+    Logger.testIdResolver = resolver;
   }
 
   /**
-   * Get level icon
+   * Run a function with every entry it logs, including from async work it
+   * starts, attributed to the given test
    */
-  private static getLevelIcon(level: LogLevel): string {
-    switch (level) {
-      case LogLevel.DEBUG:
-        return '🔍';
-      case LogLevel.INFO:
-        return 'ℹ️';
-      case LogLevel.WARN:
-        return '⚠️';
-      case LogLevel.ERROR:
-        return '❌';
-      default:
-        return '';
-    }
+  static runWithTestId<T>(testId: string, fn: () => T): T {
+    return Logger.testIdStorage.run(testId, fn);
   }
 
   /**
-   * Get level name
+   * Id of the test the current code is running for, if any
    */
-  private static getLevelName(level: LogLevel): string {
-    switch (level) {
-      case LogLevel.DEBUG:
-        return 'DEBUG';
-      case LogLevel.INFO:
-        return 'INFO';
-      case LogLevel.WARN:
-        return 'WARN';
-      case LogLevel.ERROR:
-        return 'ERROR';
-      default:
-        return 'UNKNOWN';
-    }
+  static currentTestId(): string | undefined {
+    return Logger.testIdStorage.getStore() ?? Logger.testIdResolver?.();
   }
 
   /**
-   * Format log message
+   * Create a logger instance for a specific context/class
    */
-  private static formatMessage(entry: LogEntry): string {
-    const timestamp = Logger.globalConfig.enableTimestamps
-      ? `[${entry.timestamp.toISOString()}] `
-      : '';
-
-    const icon = Logger.getLevelIcon(entry.level);
-    const colorCode = Logger.getColorCode(entry.level);
-    const resetCode = Logger.getResetCode();
-    const context = entry.context ? `[${entry.context}] ` : '';
-    const message = entry.message;
-
-    // Remove the space between icon and context
-    return `${timestamp}${colorCode}${icon}${context}${message}${resetCode}`;
+  static for(context: string): Logger {
+    return new Logger(context);
   }
 
   /**
-   * Write log entry to file
+   * Normalize output to prevent line breaks and excessive whitespace
    */
-  private static writeToFile(entry: LogEntry): void {
-    if (!Logger.globalConfig.enableFileLogging || !Logger.fs) return;
-
-    try {
-      const timestamp = entry.timestamp.toISOString();
-      const level = Logger.getLevelName(entry.level);
-      const context = entry.context ? `[${entry.context}] ` : '';
-      const message = entry.message;
-      const logLine = `${timestamp} ${level} ${context}${message}\n`;
-
-      Logger.fs.appendFileSync(Logger.globalConfig.logFile, logLine);
-    } catch (error) {
-      // Silently fail if file logging fails
-      console.error(
-        `Failed to write log to file: ${error instanceof Error ? error.message : String(error)}`
-      );
+  static normalizeMessage(message: string): string {
+    if (typeof message !== 'string') {
+      message = String(message);
     }
+    return (
+      message
+        .trim()
+        .replace(/\r\n/g, ' ') // Windows line endings
+        .replace(/\r/g, ' ') // Mac line endings
+        .replace(/\n/g, ' ') // Unix line endings
+        .replace(/\t/g, ' ') // Tabs
+        .replace(/\s+/g, ' ') // Multiple spaces
+        // .replace(/[\x00-\x1F\x7F]/g, ' ') // Control characters
+        .trim()
+        .substring(0, Logger.globalConfig.maxLineLength)
+    );
   }
 
   /**
@@ -251,28 +462,40 @@ export class Logger {
   private log(level: LogLevel, message: string, metadata?: LogMetadata): void {
     if (level < Logger.globalConfig.level) return;
 
+    const workerIndex = process.env.TEST_WORKER_INDEX;
     const entry: LogEntry = {
       timestamp: new Date(),
       level,
-      message: Logger.normalizeMessage(message), // Ensure message is normalized
+      // Mask secrets before normalizing, so truncation cannot split one
+      message: Logger.normalizeMessage(Redactor.redact(message)),
       context: this.context,
-      metadata,
+      metadata: Redactor.redactValue(metadata),
+      testId: Logger.currentTestId(),
+      workerIndex: workerIndex !== undefined ? Number(workerIndex) : undefined,
     };
 
-    // Format and output to console
-    const formattedMessage = Logger.formatMessage(entry);
-
-    // Use console.log but ensure message doesn't contain extra newlines
-    console.log(formattedMessage);
-
-    // Write to file if enabled
-    Logger.writeToFile(entry);
+    // Hand the entry to console, file and any custom transports
+    for (const transport of [
+      ...Logger.configuredTransports,
+      ...Logger.customTransports,
+    ]) {
+      transport.write(entry);
+    }
 
     // Store in buffer for potential retrieval
     Logger.logBuffer.push(entry);
     if (Logger.logBuffer.length > 1000) {
       Logger.logBuffer.shift(); // Keep only last 1000 entries
     }
+
+    if (entry.testId) {
+      const testLogs = Logger.testLogBuffers.get(entry.testId) ?? [];
+      testLogs.push(entry);
+      if (testLogs.length > 10000) {
+        testLogs.shift(); // Keep only last 10000 entries per test
+      }
+      Logger.testLogBuffers.set(entry.testId, testLogs);
+    }
   }
 
   /**
@@ -360,10 +583,25 @@ export class Logger {
     return Logger.logBuffer.slice(-count);
   }
 
+  /**
+   * Get every entry logged for a test
+   */
+  static getTestLogs(testId: string): LogEntry[] {
+    return [...(Logger.testLogBuffers.get(testId) ?? [])];
+  }
+
+  /**
+   * Forget the entries logged for a test
+   */
+  static clearTestLogs(testId: string): void {
+    Logger.testLogBuffers.delete(testId);
+  }
+
   /**
    * Clear log buffer
    */
   static clearBuffer(): void {
     Logger.logBuffer = [];
+    Logger.testLogBuffers.clear();
   }
 }
@@ -0,0 +1,293 @@
+import { APIResponse, Page, Request, Route } from '@playwright/test';
+import * as fs from 'fs';
+import * as path from 'path';
+import { NetworkMode } from '../config/EnvironmentProfiles';
+import { Logger } from './Logger';
+import { Redactor } from './Redactor';
+
+/**
+ * A single declarative route stub. Exactly one of `body`, `json` or
+ * `bodyFile` (relative to the scenario directory) may be given.
+ */
+export interface RouteStub {
+  url: string;
+  method?: string;
+  status?: number;
+  headers?: Record<string, string>;
+  contentType?: string;
+  body?: string;
+  json?: unknown;
+  bodyFile?: string;
+}
+
+/**
+ * Contents of a `<mocksDir>/scenarios/<name>.json` file
+ */
+export interface MockScenario {
+  description?: string;
+  routes: RouteStub[];
+}
+
+interface HarHeader {
+  name: string;
+  value: string;
+}
+
+interface HarEntry {
+  startedDateTime: string;
+  time: number;
+  request: {
+    method: string;
+    url: string;
+    httpVersion: string;
+    headers: HarHeader[];
+    queryString: HarHeader[];
+    cookies: [];
+    headersSize: number;
+    bodySize: number;
+    postData?: { mimeType: string; text: string };
+  };
+  response: {
+    status: number;
+    statusText: string;
+    httpVersion: string;
+    headers: HarHeader[];
+    cookies: [];
+    content: { size: number; mimeType: string; text: string; encoding: string };
+    redirectURL: string;
+    headersSize: number;
+    bodySize: number;
+  };
+  cache: Record<string, never>;
+  timings: { send: number; wait: number; receive: number };
+}
+
+/**
+ * Serves browser traffic from scenario stubs and recorded HAR files so the
+ * same spec can run live or fully offline, selected with NETWORK_MODE:
+ * - live: stubs only, everything else hits the network
+ * - replay: stubs and HAR, anything not in the HAR is aborted
+ * - record: stubs and HAR, anything not in the HAR is fetched and recorded
+ */
+export class NetworkMock {
+  readonly mode: NetworkMode;
+  private readonly page: Page;
+  private readonly mocksDir: string;
+  private readonly recordings: Map<string, HarEntry[]> = new Map();
+  private logger: Logger;
+
+  constructor(page: Page, mode: NetworkMode, mocksDir: string = 'src/mocks') {
+    this.page = page;
+    this.mode = mode;
+    this.mocksDir = mocksDir;
+    this.logger = Logger.for('NetworkMock');
+  }
+
+  /**
+   * Apply a named scenario: its HAR (outside live mode) and its stubs.
+   * Stubs are registered last, so they win over HAR entries.
+   * @throws if the scenario file does not exist
+   */
+  async useScenario(name: string): Promise<void> {
+    const scenarioPath = path.join(this.mocksDir, 'scenarios', `${name}.json`);
+    if (!fs.existsSync(scenarioPath)) {
+      throw new Error(
+        `No network scenario "${name}" at ${path.resolve(scenarioPath)}`
+      );
+    }
+    this.logger.info(`Using network scenario "${name}" in ${this.mode} mode`);
+
+    if (this.mode !== 'live') {
+      await this.useHar(name);
+    }
+
+    const scenario = JSON.parse(
+      fs.readFileSync(scenarioPath, 'utf-8')
+    ) as MockScenario;
+    for (const stub of scenario.routes) {
+      await this.stub(stub, path.dirname(scenarioPath));
+    }
+  }
+
+  /**
+   * Register a single route stub on the page
+   */
+  async stub(stub: RouteStub, baseDir: string = this.mocksDir): Promise<void> {
+    const method = stub.method?.toUpperCase();
+    const body = stub.bodyFile
+      ? fs.readFileSync(path.join(baseDir, stub.bodyFile))
+      : stub.body;
+
+    await this.page.route(stub.url, async route => {
+      if (method && route.request().method() !== method) {
+        await route.fallback();
+        return;
+      }
+      this.logger.debug(`Stubbed ${route.request().method()} ${stub.url}`);
+      await route.fulfill({
+        status: stub.status ?? 200,
+        headers: stub.headers,
+        contentType: stub.contentType,
+        body,
+        json: stub.json,
+      });
+    });
+  }
+
+  /**
+   * Write requests recorded in record mode into their scenario HAR files.
+   * HAR files are committed, so secrets in URLs, headers (Cookie,
+   * Authorization, Set-Cookie...) and request bodies are masked; response
+   * bodies are stored base64-encoded and kept as recorded.
+   */
+  async flush(): Promise<void> {
+    for (const [harPath, entries] of this.recordings) {
+      if (entries.length === 0) {
+        continue;
+      }
+      const har = fs.existsSync(harPath)
+        ? JSON.parse(fs.readFileSync(harPath, 'utf-8'))
+        : {
+            log: {
+              version: '1.2',
+              creator: { name: 'NetworkMock', version: '1.0' },
+              pages: [],
+              entries: [],
+            },
+          };
+      har.log.entries.push(...entries.map(NetworkMock.redactEntry));
+      fs.mkdirSync(path.dirname(harPath), { recursive: true });
+      fs.writeFileSync(harPath, JSON.stringify(har, null, 2));
+      this.logger.info(`Recorded ${entries.length} request(s) to ${harPath}`);
+    }
+    this.recordings.clear();
+  }
+
+  private async useHar(name: string): Promise<void> {
+    const harPath = path.join(this.mocksDir, 'har', `${name}.har`);
+    const harExists = fs.existsSync(harPath);
+
+    if (this.mode === 'replay') {
+      if (!harExists) {
+        throw new Error(
+          `No HAR recorded for scenario "${name}" at ${harPath}; run once with NETWORK_MODE=record`
+        );
+      }
+      await this.page.routeFromHAR(harPath, { notFound: 'abort' });
+      return;
+    }
+
+    // Record mode: the recorder is registered first so the HAR router,
+    // registered after it, runs first and falls back to it on a miss
+    const entries: HarEntry[] = [];
+    this.recordings.set(harPath, entries);
+    await this.page.route('**/*', route => this.record(route, entries));
+    if (harExists) {
+      await this.page.routeFromHAR(harPath, { notFound: 'fallback' });
+    }
+  }
+
+  private async record(route: Route, entries: HarEntry[]): Promise<void> {
+    const request = route.request();
+    const startedDateTime = new Date();
+    let response: APIResponse;
+    let body: Buffer;
+    try {
+      // Keep redirects as separate entries, as the browser will request them
+      response = await route.fetch({ maxRedirects: 0 });
+      body = await response.body();
+    } catch (error) {
+      this.logger.warn(
+        `Not recording ${request.method()} ${request.url()}, fetch failed`,
+        { error }
+      );
+      await route.continue();
+      return;
+    }
+    const headers = response.headersArray();
+
+    entries.push(
+      NetworkMock.toHarEntry(request, startedDateTime, {
+        status: response.status(),
+        statusText: response.statusText(),
+        headers,
+        body,
+      })
+    );
+    this.logger.debug(`Recorded ${request.method()} ${request.url()}`);
+    await route.fulfill({ response, body });
+  }
+
+  private static redactEntry(entry: HarEntry): HarEntry {
+    // Masking inside base64 would corrupt the body without hiding anything
+    const { content } = entry.response;
+    const redacted = Redactor.redactValue({
+      ...entry,
+      response: { ...entry.response, content: { ...content, text: '' } },
+    });
+    redacted.response.content.text = content.text;
+    return redacted;
+  }
+
+  private static toHarEntry(
+    request: Request,
+    startedDateTime: Date,
+    response: {
+      status: number;
+      statusText: string;
+      headers: HarHeader[];
+      body: Buffer;
+    }
+  ): HarEntry {
+    const url = new URL(request.url());
+    const header = (headers: HarHeader[], name: string) =>
+      headers.find(h => h.name.toLowerCase() === name)?.value ?? '';
+    const requestHeaders = Object.entries(request.headers()).map(
+      ([name, value]) => ({ name, value })
+    );
+    const postData = request.postData();
+    const time = Date.now() - startedDateTime.getTime();
+
+    return {
+      startedDateTime: startedDateTime.toISOString(),
+      time,
+      request: {
+        method: request.method(),
+        url: request.url(),
+        httpVersion: 'HTTP/1.1',
+        headers: requestHeaders,
+        queryString: Array.from(url.searchParams, ([name, value]) => ({
+          name,
+          value,
+        })),
+        cookies: [],
+        headersSize: -1,
+        bodySize: postData?.length ?? 0,
+        ...(postData !== null && {
+          postData: {
+            mimeType: header(requestHeaders, 'content-type'),
+            text: postData,
+          },
+        }),
+      },
+      response: {
+        status: response.status,
+        statusText: response.statusText,
+        httpVersion: 'HTTP/1.1',
+        headers: response.headers,
+        cookies: [],
+        content: {
+          size: response.body.length,
+          mimeType: header(response.headers, 'content-type'),
+          text: response.body.toString('base64'),
+          encoding: 'base64',
+        },
+        redirectURL: header(response.headers, 'location'),
+        headersSize: -1,
+        bodySize: response.body.length,
+      },
+      cache: {},
+      timings: { send: 0, wait: time, receive: 0 },
+    };
+  }
+}
@@ -0,0 +1,179 @@
+import { Locator, Page } from '@playwright/test';
+import { AllureHelper } from './AllureHelper';
+import { Logger } from './Logger';
+import { Redactor } from './Redactor';
+
+/**
+ * Screenshot settings for an action's Allure step, as for AllureHelper.step
+ */
+export interface ActionOptions {
+  screenshotBefore?: boolean;
+  screenshotAfter?: boolean;
+  screenshotOnError?: boolean;
+}
+
+/**
+ * Anything an action can run on: page objects and components
+ */
+interface ActionOwner {
+  readonly page: Page;
+}
+
+type ActionTitle = string | ((...args: never[]) => string);
+
+// Element descriptions that suggest a typed value must not be logged
+const SENSITIVE_ELEMENT =
+  /password|passcode|secret|token|one-time|\botp\b|\bpin\b|\bcvv\b/i;
+const MAX_ARGUMENT_LENGTH = 60;
+
+/**
+ * Runs page object actions as Allure steps, logging each one with its
+ * duration. Before and after screenshots are off by default; enable them
+ * for every action with ACTION_SCREENSHOTS=true or PageAction.configure.
+ */
+export class PageAction {
+  private static defaults: ActionOptions = PageAction.defaultsFromEnv();
+
+  /**
+   * Change the screenshot settings used by every action
+   */
+  static configure(options: ActionOptions): void {
+    PageAction.defaults = { ...PageAction.defaults, ...options };
+  }
+
+  /**
+   * Run an action as an Allure step
+   * @param owner - page object or component performing the action
+   */
+  static async run<T>(
+    owner: ActionOwner,
+    title: string,
+    action: () => Promise<T>,
+    options: ActionOptions = {}
+  ): Promise<T> {
+    const logger = Logger.for(owner.constructor.name);
+    const stepTitle = Redactor.redact(title);
+    const start = Date.now();
+
+    logger.debug(`▶ ${stepTitle}`);
+    try {
+      const result = await AllureHelper.step(stepTitle, owner.page, action, {
+        ...PageAction.defaults,
+        ...options,
+      });
+      logger.info(`${stepTitle} (${Date.now() - start}ms)`);
+      return result;
+    } catch (error) {
+      logger.error(`${stepTitle} failed after ${Date.now() - start}ms`, {
+        error,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Readable description of a locator, e.g. `getByRole('button', { name:
+   * 'Save' })`, or the text given to `locator.describe()`
+   */
+  static describe(locator: Locator): string {
+    return locator.toString();
+  }
+
+  /**
+   * A value typed into an element, masked when the element looks like a
+   * password, token or one-time code field
+   */
+  static describeValue(locator: Locator, value: string): string {
+    return SENSITIVE_ELEMENT.test(PageAction.describe(locator))
+      ? Redactor.MASK
+      : `"${value}"`;
+  }
+
+  /**
+   * Step title for a decorated method: the template with `{0}`, `{1}`...
+   * replaced by the arguments, or the method name in words followed by the
+   * arguments
+   */
+  static title(
+    methodName: string,
+    args: unknown[],
+    template?: ActionTitle
+  ): string {
+    if (typeof template === 'function') {
+      return template(...(args as never[]));
+    }
+    if (template !== undefined) {
+      return template.replace(/\{(\d+)\}/g, (placeholder, index: string) =>
+        Number(index) < args.length
+          ? PageAction.formatArgument(args[Number(index)], false)
+          : placeholder
+      );
+    }
+    const words = methodName.replace(/([a-z0-9])([A-Z])/g, '$1 $2');
+    const name = words.charAt(0).toUpperCase() + words.slice(1).toLowerCase();
+    return args.length
+      ? `${name} ${args.map(arg => PageAction.formatArgument(arg, true)).join(', ')}`
+      : name;
+  }
+
+  private static formatArgument(value: unknown, quoteStrings: boolean): string {
+    if (typeof value === 'string') {
+      return quoteStrings ? `"${value}"` : value;
+    }
+    if (PageAction.isLocator(value)) {
+      return PageAction.describe(value);
+    }
+    if (value === undefined || typeof value === 'function') {
+      return String(value);
+    }
+    const text = JSON.stringify(value) ?? String(value);
+    return text.length > MAX_ARGUMENT_LENGTH
+      ? `${text.slice(0, MAX_ARGUMENT_LENGTH)}…`
+      : text;
+  }
+
+  private static isLocator(value: unknown): value is Locator {
+    return (
+      typeof value === 'object' &&
+      value !== null &&
+      typeof (value as Locator).page === 'function' &&
+      typeof (value as Locator).waitFor === 'function'
+    );
+  }
+
+  private static defaultsFromEnv(): ActionOptions {
+    const screenshots = process.env.ACTION_SCREENSHOTS === 'true';
+    return {
+      screenshotBefore: screenshots,
+      screenshotAfter: screenshots,
+      screenshotOnError: true,
+    };
+  }
+}
+
+/**
+ * Method decorator that runs a page object or component method as a logged
+ * Allure step
+ * Usage: @action('Search for {0}') async search(term: string) { ... }
+ * @param title - template with `{0}`-style argument placeholders, or a
+ * function of the arguments; defaults to the method name in words
+ */
+export function action(title?: ActionTitle, options: ActionOptions = {}) {
+  return function <This extends ActionOwner, Args extends unknown[], R>(
+    method: (this: This, ...args: Args) => Promise<R>,
+    context: ClassMethodDecoratorContext<
+      This,
+      (this: This, ...args: Args) => Promise<R>
+    >
+  ) {
+    const methodName = String(context.name);
+    return function (this: This, ...args: Args): Promise<R> {
+      return PageAction.run(
+        this,
+        PageAction.title(methodName, args, title),
+        () => method.apply(this, args),
+        options
+      );
+    };
+  };
+}
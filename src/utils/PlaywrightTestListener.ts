@@ -4,11 +4,61 @@ import {
   Reporter,
   Suite,
   TestCase,
+  TestError,
   TestResult,
   TestStep,
 } from '@playwright/test/reporter';
 import * as fs from 'fs';
+import * as path from 'path';
+import {
+  HEALED_LOCATOR_ATTACHMENT_PREFIX,
+  HealedLocator,
+} from '../locators/HealingLocator';
+import {
+  OVERLAY_ATTACHMENT_NAME,
+  OverlayDismissal,
+} from '../overlays/OverlayGuard';
+import {
+  PERFORMANCE_ATTACHMENT_PREFIX,
+  PerformanceMetrics,
+} from '../performance/PerformanceCapture';
+import {
+  DEFAULT_TREND_FILE,
+  PerformanceTrend,
+} from '../performance/PerformanceTrend';
+import {
+  ExecutionReport,
+  ExecutionReportWriter,
+  ReportAttachment,
+  ReportAttempt,
+  ReportStep,
+  ReportSuite,
+  ReportTest,
+} from './ExecutionReportWriter';
 import { Logger } from './Logger';
+import {
+  DEFAULT_QUARANTINE_FILE,
+  Quarantine,
+  QuarantineEntry,
+} from './Quarantine';
+import { DEFAULT_HISTORY_FILE, TestHistory } from './TestHistory';
+import { buildTestId } from './TestIdentity';
+
+/**
+ * Playwright step categories; user steps created with test.step() are
+ * 'test.step', browser actions are 'pw:api'
+ */
+export type StepCategory =
+  'test.step' | 'hook' | 'fixture' | 'expect' | 'pw:api' | 'test.attach';
+
+const ALL_STEP_CATEGORIES: StepCategory[] = [
+  'test.step',
+  'hook',
+  'fixture',
+  'expect',
+  'pw:api',
+  'test.attach',
+];
 
 interface TestListenerConfig {
   outputDir?: string;
@@ -17,39 +67,100 @@ interface TestListenerConfig {
   enableScreenshots?: boolean;
   enableVideos?: boolean;
   enableTimestamps?: boolean;
+  enableExecutionReport?: boolean;
   customReportName?: string;
+  /** Step categories written to the log */
+  logStepCategories?: StepCategory[];
+  /**
+   * Step categories kept in the execution report. Steps in other categories
+   * are dropped and their children move up to the nearest reported ancestor.
+   */
+  reportStepCategories?: StepCategory[];
+  /** Record each test's final result across runs */
+  enableHistory?: boolean;
+  historyFile?: string;
+  /** Runs kept per test in the history file */
+  historySize?: number;
+  quarantineFile?: string;
+  /** Record page performance captures across runs */
+  enablePerformanceTrend?: boolean;
+  performanceTrendFile?: string;
+  /** Write healed-locators.json when fallback locator strategies matched */
+  enableHealingReport?: boolean;
 }
 
+/**
+ * Final classification of a test across all of its attempts
+ */
+export type TestOutcome = 'passed' | 'failed' | 'flaky' | 'skipped';
+
+/**
+ * A single attempt (initial run or retry) of a test
+ */
 interface TestExecutionContext {
+  testId: string;
   testName: string;
   suiteName: string;
+  project: string;
+  file: string;
+  line: number;
+  retry: number;
   startTime: Date;
   endTime?: Date;
   duration?: number;
   status: 'passed' | 'failed' | 'skipped' | 'timedOut' | 'interrupted';
   error?: string;
+  errorStack?: string;
   screenshots?: string[];
   videos?: string[];
+  attachments?: ReportAttachment[];
   steps?: TestStepInfo[];
+  performance?: PerformanceMetrics[];
+  healedLocators?: HealedLocator[];
+  overlays?: OverlayDismissal[];
 }
 
 interface TestStepInfo {
   title: string;
+  category: string;
   startTime: Date;
   endTime?: Date;
   duration?: number;
   status: 'passed' | 'failed' | 'skipped';
   error?: string;
+  steps: TestStepInfo[];
+  attachments: ReportAttachment[];
+}
+
+/**
+ * A test across all of its attempts
+ */
+interface TestRecord {
+  testId: string;
+  testName: string;
+  titlePath: string[];
+  suiteName: string;
+  project: string;
+  file: string;
+  line: number;
+  outcome: TestOutcome;
+  attempts: TestExecutionContext[];
+  quarantine?: QuarantineEntry;
+  flakinessScore?: number;
 }
 
 interface SuiteExecutionContext {
+  suiteId: string;
   suiteName: string;
+  project: string;
+  file: string;
   startTime: Date;
   endTime?: Date;
   duration?: number;
-  tests: TestExecutionContext[];
+  tests: TestRecord[];
   passed: number;
   failed: number;
+  flaky: number;
   skipped: number;
   total: number;
 }
@@ -61,8 +172,14 @@ interface SuiteExecutionContext {
 export default class PlaywrightTestListener implements Reporter {
   private config: TestListenerConfig;
   protected outputDir: string;
+  // Keyed by attempt id, so retries never overwrite earlier attempts
   protected executionContext: Map<string, TestExecutionContext> = new Map();
   protected suiteContext: Map<string, SuiteExecutionContext> = new Map();
+  // Keyed by Playwright's step objects, so same-named steps never collide
+  private stepContext: WeakMap<TestStep, TestStepInfo> = new WeakMap();
+  private quarantine: Quarantine = new Quarantine();
+  private history?: TestHistory;
+  private hadGlobalError = false;
   private globalStartTime?: Date;
   private globalEndTime?: Date;
   private logger: Logger;
@@ -75,7 +192,17 @@ export default class PlaywrightTestListener implements Reporter {
       enableScreenshots: true,
       enableVideos: true,
       enableTimestamps: true,
+      enableExecutionReport: true,
       customReportName: 'test-execution-report',
+      logStepCategories: ['test.step'],
+      reportStepCategories: ALL_STEP_CATEGORIES,
+      enableHistory: true,
+      historyFile: DEFAULT_HISTORY_FILE,
+      historySize: 20,
+      quarantineFile: DEFAULT_QUARANTINE_FILE,
+      enablePerformanceTrend: true,
+      performanceTrendFile: DEFAULT_TREND_FILE,
+      enableHealingReport: true,
       ...config,
     };
 
@@ -110,6 +237,19 @@ export default class PlaywrightTestListener implements Reporter {
       '═══════════════════════════════════════════════════════════════'
     );
 
+    this.quarantine = Quarantine.load(this.config.quarantineFile);
+    if (this.quarantine.entries.length > 0) {
+      this.logger.info(
+        `🚧 ${this.quarantine.entries.length} quarantine entr${this.quarantine.entries.length === 1 ? 'y' : 'ies'} loaded`
+      );
+    }
+    if (this.config.enableHistory) {
+      this.history = TestHistory.load(
+        this.config.historyFile,
+        this.config.historySize
+      );
+    }
+
     // Initialize all test suites recursively
     this.initializeSuites(suite);
   }
@@ -126,63 +266,84 @@ export default class PlaywrightTestListener implements Reporter {
     }
   }
 
-  onTestBegin(test: TestCase): void {
-    const testId = this.getTestId(test);
+  onTestBegin(test: TestCase, result: TestResult): void {
     const context: TestExecutionContext = {
+      testId: this.getTestId(test),
       testName: test.title,
       suiteName: test.parent.title,
+      project: this.getProjectName(test),
+      file: test.location.file,
+      line: test.location.line,
+      retry: result.retry,
       startTime: new Date(),
       status: 'passed',
       steps: [],
     };
 
-    this.executionContext.set(testId, context);
-    this.logger.info(`🧪 Test started: ${test.parent.title} > ${test.title}`);
+    this.executionContext.set(this.getAttemptId(test, result.retry), context);
+    this.logger.info(
+      `🧪 Test started: ${this.describeTest(test)}${result.retry ? ` (retry ${result.retry})` : ''}`
+    );
 
     this.onTestStart(test);
   }
 
   onStepBegin(test: TestCase, result: TestResult, step: TestStep): void {
-    const testId = this.getTestId(test);
-    const context = this.executionContext.get(testId);
+    const context = this.executionContext.get(
+      this.getAttemptId(test, result.retry)
+    );
 
-    if (context) {
+    if (this.shouldLogStep(step)) {
+      this.logger.step(step.title, 'started');
+    }
+
+    if (context && this.shouldReportStep(step)) {
       const stepInfo: TestStepInfo = {
         title: step.title,
-        startTime: new Date(),
+        category: step.category,
+        startTime: step.startTime,
         status: 'passed',
+        steps: [],
+        attachments: [],
       };
-      context.steps!.push(stepInfo);
-      this.logger.step(step.title, 'started');
+      this.stepContext.set(step, stepInfo);
+
+      const parent = this.findReportedAncestor(step);
+      (parent ? parent.steps : context.steps!).push(stepInfo);
     }
   }
 
   onStepEnd(test: TestCase, result: TestResult, step: TestStep): void {
-    const testId = this.getTestId(test);
-    const context = this.executionContext.get(testId);
+    const stepInfo = this.stepContext.get(step);
+    const status = step.error ? 'failed' : 'passed';
 
-    if (context && context.steps) {
-      const stepInfo = context.steps.find(
-        s => s.title === step.title && !s.endTime
-      );
-      if (stepInfo) {
-        stepInfo.endTime = new Date();
-        stepInfo.duration =
-          stepInfo.endTime.getTime() - stepInfo.startTime.getTime();
-        stepInfo.status = step.error ? 'failed' : 'passed';
-        if (step.error) {
-          stepInfo.error = step.error.message;
-        }
-
-        const status = stepInfo.status === 'passed' ? 'completed' : 'failed';
-        this.logger.step(step.title, status, stepInfo.duration);
+    if (stepInfo) {
+      stepInfo.endTime = new Date(step.startTime.getTime() + step.duration);
+      stepInfo.duration = step.duration;
+      stepInfo.status = status;
+      if (step.error) {
+        stepInfo.error = step.error.message;
       }
+      stepInfo.attachments = step.attachments.map(attachment => ({
+        name: attachment.name,
+        contentType: attachment.contentType,
+        path: attachment.path,
+      }));
+    }
+
+    if (this.shouldLogStep(step)) {
+      this.logger.step(
+        step.title,
+        status === 'passed' ? 'completed' : 'failed',
+        step.duration
+      );
     }
   }
 
   onTestEnd(test: TestCase, result: TestResult): void {
-    const testId = this.getTestId(test);
-    const context = this.executionContext.get(testId);
+    const context = this.executionContext.get(
+      this.getAttemptId(test, result.retry)
+    );
 
     if (context) {
       context.endTime = new Date();
@@ -192,8 +353,27 @@ export default class PlaywrightTestListener implements Reporter {
 
       if (result.error) {
         context.error = result.error.message;
+        context.errorStack = result.error.stack;
       }
 
+      context.attachments = result.attachments.map(a => ({
+        name: a.name,
+        contentType: a.contentType,
+        path: a.path,
+      }));
+      context.performance = this.readJsonAttachments<PerformanceMetrics>(
+        result,
+        PERFORMANCE_ATTACHMENT_PREFIX
+      );
+      context.healedLocators = this.readJsonAttachments<HealedLocator>(
+        result,
+        HEALED_LOCATOR_ATTACHMENT_PREFIX
+      );
+      context.overlays = this.readJsonAttachments<OverlayDismissal[]>(
+        result,
+        OVERLAY_ATTACHMENT_NAME
+      ).flat();
+
       // Collect screenshots and videos if available
       if (this.config.enableScreenshots && result.attachments) {
         context.screenshots = result.attachments
@@ -209,18 +389,33 @@ export default class PlaywrightTestListener implements Reporter {
 
       const statusIcon = this.getStatusIcon(result.status);
       this.logger.info(
-        `${statusIcon} Test completed: ${test.parent.title} > ${test.title} (${context.duration}ms)`
+        `${statusIcon} Test completed: ${this.describeTest(test)} (${context.duration}ms)`
       );
 
       if (result.error) {
         this.logger.info(`   Error: ${result.error.message}`, 'error');
       }
+
+      const failed = result.status !== 'passed' && result.status !== 'skipped';
+      if (failed && result.retry < test.retries) {
+        this.logger.warn(
+          `🔁 Retrying (attempt ${result.retry + 2} of ${test.retries + 1})`
+        );
+      }
     }
 
     this.onTestFinish(test, result);
   }
 
-  onEnd(result: FullResult): void {
+  onError(error: TestError): void {
+    // Errors outside tests (config, global setup, worker crashes)
+    this.hadGlobalError = true;
+    this.logger.error(`Error outside of a test: ${error.message}`);
+  }
+
+  async onEnd(
+    result: FullResult
+  ): Promise<{ status: FullResult['status'] } | void> {
     this.globalEndTime = new Date();
     const totalDuration =
       this.globalEndTime.getTime() - this.globalStartTime!.getTime();
@@ -235,18 +430,20 @@ export default class PlaywrightTestListener implements Reporter {
     let totalTests = 0;
     let totalPassed = 0;
     let totalFailed = 0;
+    let totalFlaky = 0;
     let totalSkipped = 0;
 
     for (const [, context] of this.suiteContext.entries()) {
       totalTests += context.total;
       totalPassed += context.passed;
       totalFailed += context.failed;
+      totalFlaky += context.flaky;
       totalSkipped += context.skipped;
     }
 
     if (totalTests > 0) {
       this.logger.info(
-        `📊 Grand Total: ${totalTests} tests - ${totalPassed} passed, ${totalFailed} failed, ${totalSkipped} skipped`
+        `📊 Grand Total: ${totalTests} tests - ${totalPassed} passed, ${totalFailed} failed, ${totalFlaky} flaky, ${totalSkipped} skipped`
       );
     }
     this.logger.info(
@@ -254,52 +451,357 @@ export default class PlaywrightTestListener implements Reporter {
     );
 
     this.onTestSuiteFinish();
+    this.updateHistory();
+    this.updatePerformanceTrend();
+    this.writeHealingReport();
+    this.logOverlayDismissals();
+
+    const status = this.resolveStatus(result);
+    if (this.config.enableExecutionReport) {
+      this.writeExecutionReport({ ...result, status });
+    }
+    if (status !== result.status) {
+      return { status };
+    }
   }
 
   // TestNG-like event methods that can be overridden
   protected onTestSuiteStart(suite: Suite): void {
     const suiteName = suite.title || 'Root Suite';
+    const [, project = '', file = ''] = suite.titlePath();
     const suiteContext: SuiteExecutionContext = {
+      suiteId: this.getSuiteId(suite),
       suiteName,
+      project,
+      file,
       startTime: new Date(),
       tests: [],
       passed: 0,
       failed: 0,
+      flaky: 0,
       skipped: 0,
       total: 0,
     };
 
-    this.suiteContext.set(suiteName, suiteContext);
+    this.suiteContext.set(suiteContext.suiteId, suiteContext);
     this.logger.info(
       '───────────────────────────────────────────────────────────────'
     );
-    this.logger.info(`📋 Test suite started: ${suiteName}`);
+    this.logger.info(
+      `📋 Test suite started: ${this.describeSuite(suiteContext)}`
+    );
   }
 
   protected onTestStart(_test: TestCase): void {
     // Hook for test start - can be overridden
   }
 
-  protected onTestFinish(_test: TestCase, result: TestResult): void {
+  protected onTestFinish(test: TestCase, result: TestResult): void {
     // Hook for test finish - can be overridden
-    const suiteName = _test.parent.title || 'Root Suite';
-    const suiteContext = this.suiteContext.get(suiteName);
-    if (suiteContext) {
-      suiteContext.total++;
-      switch (result.status) {
-        case 'passed':
-          suiteContext.passed++;
-          break;
-        case 'failed':
-        case 'timedOut':
-        case 'interrupted':
-          suiteContext.failed++;
-          break;
-        case 'skipped':
-          suiteContext.skipped++;
-          break;
+    const suiteId = this.getSuiteId(test.parent);
+    if (!this.suiteContext.has(suiteId)) {
+      // Tests in untitled describe blocks have a suite onBegin skipped
+      this.onTestSuiteStart(test.parent);
+    }
+    const suiteContext = this.suiteContext.get(suiteId);
+    if (!suiteContext) {
+      return;
+    }
+
+    const testId = this.getTestId(test);
+    let record = suiteContext.tests.find(t => t.testId === testId);
+    if (!record) {
+      record = {
+        testId,
+        testName: test.title,
+        titlePath: test.titlePath().slice(3),
+        suiteName: suiteContext.suiteName,
+        project: this.getProjectName(test),
+        file: test.location.file,
+        line: test.location.line,
+        outcome: 'passed',
+        attempts: [],
+        quarantine: this.quarantine.find(testId),
+      };
+      suiteContext.tests.push(record);
+    }
+
+    const attempt = this.executionContext.get(
+      this.getAttemptId(test, result.retry)
+    );
+    if (attempt) {
+      record.attempts.push(attempt);
+    }
+    record.outcome = this.classifyOutcome(test);
+    this.updateSuiteCounts(suiteContext);
+  }
+
+  /**
+   * Recount a suite from its tests' current outcomes, so a retried test is
+   * counted once with the result of its latest attempt
+   */
+  private updateSuiteCounts(suiteContext: SuiteExecutionContext): void {
+    const count = (outcome: TestOutcome) =>
+      suiteContext.tests.filter(test => test.outcome === outcome).length;
+
+    suiteContext.total = suiteContext.tests.length;
+    suiteContext.passed = count('passed');
+    suiteContext.failed = count('failed');
+    suiteContext.flaky = count('flaky');
+    suiteContext.skipped = count('skipped');
+  }
+
+  // ============================================================================
+  // HISTORY AND QUARANTINE
+  // ============================================================================
+
+  /**
+   * Add this run's final results to the history file and score each test
+   */
+  protected updateHistory(): void {
+    if (!this.history) {
+      return;
+    }
+
+    const timestamp = (this.globalStartTime ?? new Date()).toISOString();
+    for (const record of this.allTestRecords()) {
+      this.history.record(record.testId, {
+        timestamp,
+        outcome: record.outcome,
+        duration: record.attempts.reduce(
+          (sum, attempt) => sum + (attempt.duration ?? 0),
+          0
+        ),
+        attempts: record.attempts.length,
+      });
+      record.flakinessScore = this.history.flakinessScore(record.testId);
+    }
+
+    try {
+      this.history.save();
+    } catch (error) {
+      this.logger.error('Failed to write test history', error);
+    }
+
+    const flakiest = this.allTestRecords()
+      .filter(record => (record.flakinessScore ?? 0) > 0)
+      .sort((a, b) => b.flakinessScore! - a.flakinessScore!)
+      .slice(0, 5);
+    for (const record of flakiest) {
+      this.logger.warn(
+        `🎲 Flakiness ${record.flakinessScore}: ${record.testId}`
+      );
+    }
+  }
+
+  /**
+   * Pass a failed run whose only failures are quarantined tests
+   */
+  protected resolveStatus(result: FullResult): FullResult['status'] {
+    const failures = this.allTestRecords().filter(
+      record => record.outcome === 'failed'
+    );
+    const quarantined = failures.filter(
+      (record): record is TestRecord & { quarantine: QuarantineEntry } =>
+        record.quarantine !== undefined
+    );
+    if (quarantined.length === 0) {
+      return result.status;
+    }
+
+    for (const record of quarantined) {
+      this.logger.warn(
+        `🚧 Quarantined test failed: ${record.testId} (${record.quarantine.reason})`
+      );
+    }
+    if (
+      result.status === 'failed' &&
+      !this.hadGlobalError &&
+      quarantined.length === failures.length
+    ) {
+      this.logger.warn(
+        `🚧 Only quarantined tests failed; not failing the build`
+      );
+      return 'passed';
+    }
+    return result.status;
+  }
+
+  // ============================================================================
+  // PERFORMANCE TREND
+  // ============================================================================
+
+  /**
+   * Parse the JSON bodies of the attachments whose names start with a prefix
+   */
+  private readJsonAttachments<T>(result: TestResult, prefix: string): T[] {
+    const values: T[] = [];
+    for (const attachment of result.attachments) {
+      if (!attachment.name.startsWith(prefix) || !attachment.body) {
+        continue;
+      }
+      try {
+        values.push(JSON.parse(attachment.body.toString('utf-8')) as T);
+      } catch (error) {
+        this.logger.warn(`Unreadable attachment ${attachment.name}`, {
+          error,
+        });
       }
     }
+    return values;
+  }
+
+  /**
+   * Add this run's page performance captures to the trend file and log
+   * each page's load time against its previous average
+   */
+  protected updatePerformanceTrend(): void {
+    if (!this.config.enablePerformanceTrend) {
+      return;
+    }
+
+    const captures = this.allTestRecords().flatMap(record =>
+      record.attempts.flatMap(attempt =>
+        (attempt.performance ?? []).map(metrics => ({ record, metrics }))
+      )
+    );
+    if (captures.length === 0) {
+      return;
+    }
+
+    const trend = PerformanceTrend.load(this.config.performanceTrendFile);
+    const timestamp = (this.globalStartTime ?? new Date()).toISOString();
+    for (const { record, metrics } of captures) {
+      trend.record(metrics, record.testId, timestamp);
+    }
+
+    this.logger.info('📈 Performance trend:');
+    for (const pageName of new Set(captures.map(c => c.metrics.page))) {
+      const latest = captures
+        .filter(c => c.metrics.page === pageName)
+        .map(c => c.metrics.navigation.load);
+      const load = Math.round(
+        latest.reduce((sum, value) => sum + value, 0) / latest.length
+      );
+      const previous = trend.averageBefore(pageName, 'load', timestamp);
+      const change = previous
+        ? ` (previous average ${previous}ms, ${load >= previous ? '+' : ''}${Math.round(((load - previous) / previous) * 100)}%)`
+        : '';
+      this.logger.info(`   ${pageName}: load ${load}ms${change}`);
+    }
+
+    try {
+      trend.save();
+    } catch (error) {
+      this.logger.error('Failed to write performance trend', error);
+    }
+  }
+
+  // ============================================================================
+  // HEALED LOCATORS
+  // ============================================================================
+
+  /**
+   * Write every locator that only matched through a fallback strategy to
+   * healed-locators.json, with the tests that hit it, so page objects can
+   * be updated
+   */
+  protected writeHealingReport(): void {
+    if (!this.config.enableHealingReport) {
+      return;
+    }
+
+    const healed = new Map<
+      string,
+      HealedLocator & { occurrences: number; tests: string[] }
+    >();
+    for (const record of this.allTestRecords()) {
+      for (const attempt of record.attempts) {
+        for (const entry of attempt.healedLocators ?? []) {
+          const key = `${entry.owner}.${entry.locator}>${entry.healedWith}`;
+          const existing = healed.get(key) ?? {
+            ...entry,
+            occurrences: 0,
+            tests: [],
+          };
+          existing.occurrences++;
+          if (!existing.tests.includes(record.testId)) {
+            existing.tests.push(record.testId);
+          }
+          healed.set(key, existing);
+        }
+      }
+    }
+    if (healed.size === 0) {
+      return;
+    }
+
+    this.logger.info(`🩹 ${healed.size} locator(s) healed by a fallback:`);
+    for (const entry of healed.values()) {
+      this.logger.warn(
+        `   ${entry.owner}.${entry.locator}: ${entry.primary} -> ${entry.healedWith} (${entry.occurrences}x)`
+      );
+    }
+
+    const file = path.join(this.outputDir, 'healed-locators.json');
+    try {
+      fs.writeFileSync(
+        file,
+        JSON.stringify(
+          {
+            generatedAt: (this.globalEndTime ?? new Date()).toISOString(),
+            locators: Array.from(healed.values()),
+          },
+          null,
+          2
+        )
+      );
+      this.logger.info(`🩹 Healed locators report written: ${file}`);
+    } catch (error) {
+      this.logger.error('Failed to write healed locators report', error);
+    }
+  }
+
+  // ============================================================================
+  // OVERLAYS
+  // ============================================================================
+
+  /**
+   * Total overlay dismissals across every attempt, most frequent first
+   */
+  private overlayTotals(): OverlayDismissal[] {
+    const totals = new Map<string, OverlayDismissal>();
+    for (const record of this.allTestRecords()) {
+      for (const attempt of record.attempts) {
+        for (const dismissal of attempt.overlays ?? []) {
+          const total = totals.get(dismissal.name) ?? {
+            ...dismissal,
+            count: 0,
+          };
+          total.count += dismissal.count;
+          totals.set(dismissal.name, total);
+        }
+      }
+    }
+    return Array.from(totals.values()).sort((a, b) => b.count - a.count);
+  }
+
+  protected logOverlayDismissals(): void {
+    const totals = this.overlayTotals();
+    if (totals.length === 0) {
+      return;
+    }
+    this.logger.info(
+      `🧹 Overlays dismissed: ${totals
+        .map(total => `${total.name} ${total.count}x`)
+        .join(', ')}`
+    );
+  }
+
+  private allTestRecords(): TestRecord[] {
+    return Array.from(this.suiteContext.values()).flatMap(
+      context => context.tests
+    );
   }
 
   protected onTestSuiteFinish(): void {
@@ -323,29 +825,215 @@ export default class PlaywrightTestListener implements Reporter {
     this.logger.info(
       '───────────────────────────────────────────────────────────────'
     );
-    for (const [suiteName, context] of suitesWithTests) {
+    for (const [, context] of suitesWithTests) {
       context.endTime = new Date();
       context.duration =
         context.endTime.getTime() - context.startTime.getTime();
 
-      this.logger.info(`📋 Suite completed: ${suiteName}`);
+      this.logger.info(`📋 Suite completed: ${this.describeSuite(context)}`);
       this.logger.info(
-        `📊 Total: ${context.total}, Passed: ${context.passed}, Failed: ${context.failed}, Skipped: ${context.skipped}, Duration: ${context.duration}ms`
+        `📊 Total: ${context.total}, Passed: ${context.passed}, Failed: ${context.failed}, Flaky: ${context.flaky}, Skipped: ${context.skipped}, Duration: ${context.duration}ms`
       );
 
       // Log individual test results if there are any failures
       if (context.failed > 0) {
-        this.logger.info(
-          `❌ Suite had ${context.failed} failed test(s)`,
-          'warn'
-        );
+        this.logger.warn(`❌ Suite had ${context.failed} failed test(s)`);
       }
       this.logger.info(''); // Add empty line between suites
     }
   }
 
+  // ============================================================================
+  // EXECUTION REPORT
+  // ============================================================================
+
+  /**
+   * Write the collected suites, tests and steps as JSON and HTML
+   */
+  protected writeExecutionReport(result: FullResult): void {
+    try {
+      const { json, html } = ExecutionReportWriter.write(
+        this.buildExecutionReport(result),
+        this.outputDir
+      );
+      this.logger.info(`📄 Execution report written: ${json}, ${html}`);
+    } catch (error) {
+      this.logger.error('Failed to write execution report', error);
+    }
+  }
+
+  protected buildExecutionReport(result: FullResult): ExecutionReport {
+    const endTime = this.globalEndTime ?? new Date();
+    const startTime = this.globalStartTime ?? endTime;
+    const suites = Array.from(this.suiteContext.values())
+      .filter(context => context.total > 0)
+      .map(context => this.toReportSuite(context));
+
+    return {
+      name: this.config.customReportName!,
+      status: result.status,
+      startTime: startTime.toISOString(),
+      endTime: endTime.toISOString(),
+      duration: endTime.getTime() - startTime.getTime(),
+      totals: {
+        total: suites.reduce((sum, suite) => sum + suite.total, 0),
+        passed: suites.reduce((sum, suite) => sum + suite.passed, 0),
+        failed: suites.reduce((sum, suite) => sum + suite.failed, 0),
+        flaky: suites.reduce((sum, suite) => sum + suite.flaky, 0),
+        skipped: suites.reduce((sum, suite) => sum + suite.skipped, 0),
+      },
+      suites,
+      overlays: this.overlayTotals(),
+    };
+  }
+
+  private toReportSuite(context: SuiteExecutionContext): ReportSuite {
+    return {
+      name: context.suiteName,
+      project: context.project,
+      file: context.file,
+      startTime: context.startTime.toISOString(),
+      endTime: context.endTime?.toISOString(),
+      duration: context.duration,
+      total: context.total,
+      passed: context.passed,
+      failed: context.failed,
+      flaky: context.flaky,
+      skipped: context.skipped,
+      tests: context.tests.map(test => this.toReportTest(test)),
+    };
+  }
+
+  private toReportTest(record: TestRecord): ReportTest {
+    return {
+      id: record.testId,
+      title: record.testName,
+      titlePath: record.titlePath,
+      suite: record.suiteName,
+      project: record.project,
+      file: record.file,
+      line: record.line,
+      outcome: record.outcome,
+      quarantine: record.quarantine && {
+        reason: record.quarantine.reason,
+        ticket: record.quarantine.ticket,
+      },
+      flakinessScore: record.flakinessScore,
+      duration: record.attempts.reduce(
+        (sum, attempt) => sum + (attempt.duration ?? 0),
+        0
+      ),
+      attempts: record.attempts.map(attempt => this.toReportAttempt(attempt)),
+    };
+  }
+
+  private toReportAttempt(context: TestExecutionContext): ReportAttempt {
+    return {
+      retry: context.retry,
+      status: context.status,
+      startTime: context.startTime.toISOString(),
+      endTime: context.endTime?.toISOString(),
+      duration: context.duration,
+      error: context.error
+        ? { message: context.error, stack: context.errorStack }
+        : undefined,
+      steps: (context.steps ?? []).map(step => this.toReportStep(step)),
+      attachments: context.attachments ?? [],
+      performance: context.performance?.length
+        ? context.performance
+        : undefined,
+      healedLocators: context.healedLocators?.length
+        ? context.healedLocators
+        : undefined,
+      overlays: context.overlays?.length ? context.overlays : undefined,
+    };
+  }
+
+  private toReportStep(step: TestStepInfo): ReportStep {
+    return {
+      title: step.title,
+      category: step.category,
+      startTime: step.startTime.toISOString(),
+      endTime: step.endTime?.toISOString(),
+      duration: step.duration,
+      status: step.status,
+      error: step.error,
+      steps: step.steps.map(child => this.toReportStep(child)),
+      attachments: step.attachments,
+    };
+  }
+
+  private shouldLogStep(step: TestStep): boolean {
+    return this.config.logStepCategories!.includes(
+      step.category as StepCategory
+    );
+  }
+
+  private shouldReportStep(step: TestStep): boolean {
+    return this.config.reportStepCategories!.includes(
+      step.category as StepCategory
+    );
+  }
+
+  /**
+   * Walk up the step's parents to the closest one kept in the report
+   */
+  private findReportedAncestor(step: TestStep): TestStepInfo | undefined {
+    for (let parent = step.parent; parent; parent = parent.parent) {
+      const parentInfo = this.stepContext.get(parent);
+      if (parentInfo) {
+        return parentInfo;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Stable id of a test across runs and retries
+   */
   protected getTestId(test: TestCase): string {
-    return `${test.parent.title}::${test.title}`;
+    const [, project, file, ...titles] = test.titlePath();
+    return buildTestId(project, file, titles);
+  }
+
+  /**
+   * Id of a single attempt of a test
+   */
+  protected getAttemptId(test: TestCase, retry: number): string {
+    return `${this.getTestId(test)}#${retry}`;
+  }
+
+  protected getSuiteId(suite: Suite): string {
+    return suite.titlePath().slice(1).join('::');
+  }
+
+  private getProjectName(test: TestCase): string {
+    return test.titlePath()[1] ?? '';
+  }
+
+  private classifyOutcome(test: TestCase): TestOutcome {
+    switch (test.outcome()) {
+      case 'flaky':
+        return 'flaky';
+      case 'skipped':
+        return 'skipped';
+      case 'unexpected':
+        return 'failed';
+      default:
+        return 'passed';
+    }
+  }
+
+  private describeTest(test: TestCase): string {
+    const project = this.getProjectName(test);
+    const titles = test.titlePath().slice(3).join(' > ');
+    return project ? `[${project}] ${titles}` : titles;
+  }
+
+  private describeSuite(context: SuiteExecutionContext): string {
+    return context.project
+      ? `[${context.project}] ${context.suiteName}`
+      : context.suiteName;
   }
 
   private getStatusIcon(status: string): string {
@@ -0,0 +1,77 @@
+import * as fs from 'fs';
+import { Logger } from './Logger';
+
+/**
+ * A quarantined test. `test` is a full test id as shown in the execution
+ * report (`local::ExampleTestUI.ts::Suite > title`), or its trailing
+ * `file::titles` or `titles` part to quarantine it in every project.
+ */
+export interface QuarantineEntry {
+  test: string;
+  reason: string;
+  ticket?: string;
+  /** ISO date after which the entry no longer applies */
+  until?: string;
+}
+
+export const DEFAULT_QUARANTINE_FILE = 'src/config/quarantine.json';
+
+/**
+ * File-based list of known-unstable tests. Quarantined tests still run and
+ * are reported, but their failures do not fail the build.
+ */
+export class Quarantine {
+  readonly entries: QuarantineEntry[];
+
+  constructor(entries: QuarantineEntry[] = []) {
+    this.entries = entries;
+  }
+
+  /**
+   * Load the quarantine list; a missing or unreadable file means nothing is
+   * quarantined
+   */
+  static load(filePath: string = DEFAULT_QUARANTINE_FILE): Quarantine {
+    if (!fs.existsSync(filePath)) {
+      return new Quarantine();
+    }
+
+    let entries: QuarantineEntry[];
+    try {
+      entries = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+      if (!Array.isArray(entries)) {
+        throw new Error('expected an array of entries');
+      }
+    } catch (error) {
+      Logger.for('Quarantine').warn(
+        `Ignoring unreadable quarantine list ${filePath}`,
+        { error }
+      );
+      return new Quarantine();
+    }
+    const now = Date.now();
+    const active = entries.filter(entry => {
+      if (entry.until && Date.parse(entry.until) < now) {
+        Logger.for('Quarantine').warn(
+          `Quarantine of "${entry.test}" expired on ${entry.until}`
+        );
+        return false;
+      }
+      return true;
+    });
+    return new Quarantine(active);
+  }
+
+  /**
+   * Find the entry quarantining a test, if any
+   */
+  find(testId: string): QuarantineEntry | undefined {
+    return this.entries.find(
+      entry => testId === entry.test || testId.endsWith(`::${entry.test}`)
+    );
+  }
+
+  isQuarantined(testId: string): boolean {
+    return this.find(testId) !== undefined;
+  }
+}
@@ -0,0 +1,190 @@
+/**
+ * Secret masking for log output and report attachments. Masks known secret
+ * values (registered at runtime, e.g. from credential env vars), anything
+ * matching the configured patterns, and values stored under sensitive keys.
+ */
+export class Redactor {
+  static readonly MASK = '***';
+
+  // Secrets shorter than this would mask ordinary words
+  private static readonly MIN_SECRET_LENGTH = 4;
+
+  // Group 1, when present, is kept and only the rest of the match is masked
+  private static readonly DEFAULT_PATTERNS: RegExp[] = [
+    /(\bbearer\s+)[A-Za-z0-9\-._~+/]+=*/gi,
+    /(\bbasic\s+)[A-Za-z0-9+/]+=*/gi,
+    /((?:password|passwd|pwd|secret|token|api[_-]?key|access[_-]?key)["']?\s*[:=]\s*["']?)[^\s"'&,;}]+/gi,
+    /\beyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+/g,
+  ];
+
+  private static readonly DEFAULT_SENSITIVE_KEYS =
+    /^(password|passwd|pwd|secret|client[-_]?secret|token|access[-_]?token|refresh[-_]?token|api[-_]?key|authorization|proxy-authorization|cookie|cookies|set-cookie)$/i;
+
+  private static readonly SECRET_VARIABLE_NAMES =
+    /(PASSWORD|PASSWD|SECRET|TOKEN|API_KEY)$/i;
+
+  private static patterns: RegExp[] = [...Redactor.DEFAULT_PATTERNS];
+  private static sensitiveKeys: RegExp = Redactor.DEFAULT_SENSITIVE_KEYS;
+  private static secrets: Set<string> = new Set();
+
+  /**
+   * Replace the patterns and sensitive key matcher. Patterns are added to
+   * the defaults unless `replaceDefaults` is set.
+   */
+  static configure(options: {
+    patterns?: RegExp[];
+    sensitiveKeys?: RegExp;
+    replaceDefaults?: boolean;
+  }): void {
+    const { patterns = [], sensitiveKeys, replaceDefaults = false } = options;
+    Redactor.patterns = replaceDefaults
+      ? [...patterns]
+      : [...Redactor.DEFAULT_PATTERNS, ...patterns];
+    if (sensitiveKeys) {
+      Redactor.sensitiveKeys = sensitiveKeys;
+    }
+  }
+
+  /**
+   * Add a pattern whose matches are masked
+   */
+  static addPattern(pattern: RegExp): void {
+    Redactor.patterns.push(pattern);
+  }
+
+  /**
+   * Register a known secret value to mask wherever it appears
+   */
+  static registerSecret(value: string | undefined): void {
+    if (value && value.length >= Redactor.MIN_SECRET_LENGTH) {
+      Redactor.secrets.add(value);
+    }
+  }
+
+  /**
+   * Register the values of every variable whose name marks it as a secret
+   * (…_PASSWORD, …_SECRET, …_TOKEN, …_API_KEY)
+   */
+  static registerSecretsFrom(
+    variables: Record<string, string | undefined>
+  ): void {
+    for (const [name, value] of Object.entries(variables)) {
+      if (Redactor.SECRET_VARIABLE_NAMES.test(name)) {
+        Redactor.registerSecret(value);
+      }
+    }
+  }
+
+  /**
+   * Forget registered secrets and restore the default patterns
+   */
+  static reset(): void {
+    Redactor.patterns = [...Redactor.DEFAULT_PATTERNS];
+    Redactor.sensitiveKeys = Redactor.DEFAULT_SENSITIVE_KEYS;
+    Redactor.secrets.clear();
+  }
+
+  /**
+   * Capture the registered secrets, patterns and sensitive keys
+   * @returns a function that restores them, e.g. after a test
+   */
+  static snapshot(): () => void {
+    const patterns = [...Redactor.patterns];
+    const sensitiveKeys = Redactor.sensitiveKeys;
+    const secrets = new Set(Redactor.secrets);
+    return () => {
+      Redactor.patterns = [...patterns];
+      Redactor.sensitiveKeys = sensitiveKeys;
+      Redactor.secrets = new Set(secrets);
+    };
+  }
+
+  /**
+   * Mask secrets in a string
+   */
+  static redact(text: string): string {
+    let result = text;
+    // Longest first, so a secret containing another is masked whole
+    const secrets = [...Redactor.secrets].sort((a, b) => b.length - a.length);
+    for (const secret of secrets) {
+      result = result.split(secret).join(Redactor.MASK);
+    }
+    for (const pattern of Redactor.patterns) {
+      result = result.replace(pattern, (_match: string, prefix: unknown) =>
+        typeof prefix === 'string' ? `${prefix}${Redactor.MASK}` : Redactor.MASK
+      );
+    }
+    return result;
+  }
+
+  /**
+   * Mask secrets anywhere in a JSON-like value. Values under sensitive keys
+   * and HAR-style `{ name, value }` headers with sensitive names are masked
+   * entirely. Maps become plain objects and Sets arrays; dates and buffers are
+   * kept, and other values with toJSON() are replaced by its result.
+   */
+  static redactValue<T>(value: T): T {
+    return Redactor.redactNested(value, new WeakSet()) as T;
+  }
+
+  private static redactNested(value: unknown, seen: WeakSet<object>): unknown {
+    if (typeof value === 'string') {
+      return Redactor.redact(value);
+    }
+    if (value === null || typeof value !== 'object') {
+      return value;
+    }
+    if (seen.has(value)) {
+      return '[Circular]';
+    }
+    if (value instanceof Error) {
+      const error = new Error(Redactor.redact(value.message));
+      error.name = value.name;
+      error.stack = value.stack && Redactor.redact(value.stack);
+      return error;
+    }
+    if (Buffer.isBuffer(value) || value instanceof Date) {
+      return value;
+    }
+    // Rebuilt from their entries these would all become {}, so they are
+    // converted the way logs and attachments should show them
+    if (value instanceof Map || value instanceof Set) {
+      seen.add(value);
+      const result = Redactor.redactNested(
+        value instanceof Map ? Object.fromEntries(value) : Array.from(value),
+        seen
+      );
+      seen.delete(value);
+      return result;
+    }
+    if (typeof (value as { toJSON?: unknown }).toJSON === 'function') {
+      const json = (value as { toJSON(): unknown }).toJSON();
+      if (json !== value) {
+        return Redactor.redactNested(json, seen);
+      }
+    }
+
+    seen.add(value);
+    let result: unknown;
+    if (Array.isArray(value)) {
+      result = value.map(item => Redactor.redactNested(item, seen));
+    } else {
+      const record = value as Record<string, unknown>;
+      const sensitiveHeader =
+        typeof record.name === 'string' &&
+        Redactor.sensitiveKeys.test(record.name) &&
+        'value' in record;
+      result = Object.fromEntries(
+        Object.entries(record).map(([key, nested]) => [
+          key,
+          Redactor.sensitiveKeys.test(key) ||
+          (sensitiveHeader && key === 'value')
+            ? Redactor.MASK
+            : Redactor.redactNested(nested, seen),
+        ])
+      );
+    }
+    seen.delete(value);
+    return result;
+  }
+}
@@ -0,0 +1,116 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { TestOutcome } from './PlaywrightTestListener';
+import { Logger } from './Logger';
+
+/**
+ * The final result of a test in one run
+ */
+export interface TestRun {
+  timestamp: string;
+  outcome: TestOutcome;
+  duration: number;
+  attempts: number;
+}
+
+interface TestHistoryFile {
+  version: 1;
+  tests: Record<string, TestRun[]>;
+}
+
+export const DEFAULT_HISTORY_FILE = 'playwright/.history/test-history.json';
+
+/**
+ * Results of each test across runs, keyed by stable test id, kept outside
+ * the Playwright output directory so it survives between runs
+ */
+export class TestHistory {
+  private readonly filePath: string;
+  private readonly maxRuns: number;
+  private readonly tests: Record<string, TestRun[]>;
+
+  private constructor(
+    filePath: string,
+    maxRuns: number,
+    tests: Record<string, TestRun[]>
+  ) {
+    this.filePath = filePath;
+    this.maxRuns = maxRuns;
+    this.tests = tests;
+  }
+
+  /**
+   * Load the history file, starting empty when it is missing or unreadable
+   * @param maxRuns - number of most recent runs kept per test
+   */
+  static load(
+    filePath: string = DEFAULT_HISTORY_FILE,
+    maxRuns: number = 20
+  ): TestHistory {
+    let tests: Record<string, TestRun[]> = {};
+    try {
+      if (fs.existsSync(filePath)) {
+        const file = JSON.parse(
+          fs.readFileSync(filePath, 'utf-8')
+        ) as TestHistoryFile;
+        tests = file.tests ?? {};
+      }
+    } catch (error) {
+      Logger.for('TestHistory').warn(
+        `Ignoring unreadable test history ${filePath}`,
+        { error }
+      );
+    }
+    return new TestHistory(filePath, maxRuns, tests);
+  }
+
+  /**
+   * Add a run, dropping the oldest beyond the configured limit
+   */
+  record(testId: string, run: TestRun): void {
+    const runs = [...(this.tests[testId] ?? []), run];
+    this.tests[testId] = runs.slice(-this.maxRuns);
+  }
+
+  /**
+   * Recorded runs of a test, oldest first
+   */
+  runs(testId: string): TestRun[] {
+    return this.tests[testId] ?? [];
+  }
+
+  /**
+   * Flakiness score from 0 (stable) to 1: the share of recorded runs that
+   * were flaky or whose pass/fail result flipped from the previous run.
+   * Skipped runs are ignored.
+   */
+  flakinessScore(testId: string): number {
+    const runs = this.runs(testId).filter(run => run.outcome !== 'skipped');
+    if (runs.length === 0) {
+      return 0;
+    }
+
+    let unstable = 0;
+    let previous: TestOutcome | undefined;
+    for (const run of runs) {
+      if (run.outcome === 'flaky') {
+        unstable++;
+        continue;
+      }
+      if (previous && run.outcome !== previous) {
+        unstable++;
+      }
+      previous = run.outcome;
+    }
+    return Math.round((unstable / runs.length) * 100) / 100;
+  }
+
+  save(): void {
+    const file: TestHistoryFile = { version: 1, tests: this.tests };
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    // Write then rename so an interrupted run never leaves a partial file
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(file, null, 2));
+    fs.renameSync(tempPath, this.filePath);
+  }
+}
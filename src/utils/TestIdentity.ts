@@ -0,0 +1,12 @@
+/**
+ * Stable id of a test across runs and retries: project, file path relative
+ * to the test directory, and describe/test titles. Shared by the listener,
+ * which runs in the main process, and fixtures, which run in workers.
+ */
+export function buildTestId(
+  project: string,
+  file: string,
+  titles: string[]
+): string {
+  return [project, file, titles.join(' > ')].join('::');
+}